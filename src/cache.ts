@@ -0,0 +1,89 @@
+// src/cache.ts
+import * as crypto from "crypto";
+import { GenerationParameters } from "./providers";
+
+// --- Response Cache ---
+// Generated messages by a hash of everything that determines the response, so
+// generating again for the same diff is instant and does not use any quota. Only the
+// hash and the message are stored, never the diff.
+export interface CachedResponse {
+    message: string;
+    violations: string[];
+}
+
+export interface CacheLimits {
+    ttlMs: number;
+    maxEntries: number;     // 0 turns the cache off
+}
+
+// Anything that can change the response
+export interface CacheKeyParts {
+    provider: string;
+    model: string;
+    baseUrl?: string;
+    temperature?: number;
+    parameters?: GenerationParameters;
+    prompt: string;
+    diff: string;
+}
+
+interface CacheEntry {
+    key: string;
+    value: CachedResponse;
+    timestamp: number;
+}
+
+// The part of vscode.Memento the cache needs
+export interface CacheState {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: any): Thenable<void>;
+}
+
+const CACHE_STATE_KEY = "gitDiffCommitGenerator.responseCache";
+
+export function getCacheKey(parts: CacheKeyParts): string {
+    // Fixed field order, so the same inputs always give the same hash
+    const fields = [parts.provider, parts.model, parts.baseUrl ?? "", parts.temperature ?? "", parts.parameters ?? {}, parts.prompt, parts.diff];
+    return crypto.createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+// Newest entries first; expired entries and anything over the size limit are dropped
+// whenever an entry is added.
+export class ResponseCache {
+    constructor(
+        private readonly _state: CacheState,
+        private readonly _getLimits: () => CacheLimits,
+        private readonly _now: () => number = Date.now
+    ) {}
+
+    get(key: string): CachedResponse | undefined {
+        const { ttlMs, maxEntries } = this._getLimits();
+        if (maxEntries <= 0) {
+            return undefined;
+        }
+        const entry = this._getEntries().find(e => e.key === key);
+        return entry && this._now() - entry.timestamp < ttlMs ? entry.value : undefined;
+    }
+
+    async set(key: string, value: CachedResponse): Promise<void> {
+        const { ttlMs, maxEntries } = this._getLimits();
+        if (maxEntries <= 0) {
+            return;
+        }
+        const now = this._now();
+        const others = this._getEntries().filter(e => e.key !== key && now - e.timestamp < ttlMs);
+        await this._state.update(CACHE_STATE_KEY, [{ key, value, timestamp: now }, ...others].slice(0, maxEntries));
+    }
+
+    get size(): number {
+        return this._getEntries().length;
+    }
+
+    async clear(): Promise<void> {
+        await this._state.update(CACHE_STATE_KEY, undefined);
+    }
+
+    private _getEntries(): CacheEntry[] {
+        return this._state.get<CacheEntry[]>(CACHE_STATE_KEY) || [];
+    }
+}
@@ -0,0 +1,105 @@
+// src/changelog.ts
+import { extractJsonObject } from "./conventionalCommits";
+
+// --- Changelog Types ---
+// Sections of a release in the order Keep a Changelog lists them
+export const CHANGELOG_SECTIONS = ["Added", "Changed", "Deprecated", "Removed", "Fixed", "Security"] as const;
+
+export type ChangelogSection = typeof CHANGELOG_SECTIONS[number];
+
+export type ChangelogEntries = { [section in ChangelogSection]?: string[] };
+
+export const UNRELEASED = "Unreleased";
+
+const CHANGELOG_HEADER = "# Changelog\n\n" +
+    "All notable changes to this project will be documented in this file.\n\n" +
+    "The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).\n";
+
+export function getDefaultChangelogPrompt(): string {
+    return "Write release notes in the Keep a Changelog format from the commit messages below.\n" +
+        "Group the changes into these categories: Added (new features), Changed (changes to existing functionality), " +
+        "Deprecated, Removed, Fixed (bug fixes) and Security.\n" +
+        "Write each entry as one short sentence for users of the project. Merge commits that describe the same change " +
+        "and leave out changes that do not affect users (refactoring, tests, CI, formatting) unless nothing else changed.\n" +
+        "Respond with only a JSON object (no Markdown, no explanation) whose keys are category names and whose values " +
+        "are arrays of entry strings. Omit empty categories.";
+}
+
+export function buildChangelogPrompt(prompt: string, commitLog: string): string {
+    return `${prompt}\n\nCommits, oldest first:\n${commitLog}`;
+}
+
+// Reads the JSON object from a model response, tolerating Markdown fences. Category
+// names are matched case-insensitively; unknown categories count as "Changed".
+export function parseChangelogEntries(text: string): ChangelogEntries {
+    const parsed = extractJsonObject(text);
+    const entries: ChangelogEntries = {};
+    for (const [key, value] of Object.entries(parsed)) {
+        if (!Array.isArray(value)) {
+            continue;
+        }
+        const section = CHANGELOG_SECTIONS.find(s => s.toLowerCase() === key.trim().toLowerCase()) || "Changed";
+        const items = value
+            .filter((item): item is string => typeof item === "string")
+            .map(item => item.trim().replace(/^[-*]\s+/, ""))
+            .filter(item => item);
+        if (items.length > 0) {
+            entries[section] = [...(entries[section] || []), ...items];
+        }
+    }
+    return entries;
+}
+
+// `date` is only shown for released versions, as YYYY-MM-DD
+export function renderChangelogSection(version: string, entries: ChangelogEntries, date?: string): string {
+    const isUnreleased = version.toLowerCase() === UNRELEASED.toLowerCase();
+    const heading = isUnreleased || !date ? `## [${isUnreleased ? UNRELEASED : version}]` : `## [${version}] - ${date}`;
+    const parts = [heading];
+    for (const section of CHANGELOG_SECTIONS) {
+        const items = entries[section];
+        if (items && items.length > 0) {
+            parts.push(`### ${section}\n\n${items.map(item => `- ${item}`).join("\n")}`);
+        }
+    }
+    return parts.join("\n\n") + "\n";
+}
+
+function getHeadingVersion(line: string): string | undefined {
+    const match = line.match(/^##\s+\[?([^\]\s]+)\]?/);
+    return match ? match[1].toLowerCase() : undefined;
+}
+
+// Replaces the section of the same version, or inserts the new section above the
+// newest released version (below "Unreleased"), keeping everything else as it was.
+export function updateChangelog(existing: string | undefined, section: string, version: string): string {
+    if (!existing || !existing.trim()) {
+        return `${CHANGELOG_HEADER}\n${section}`;
+    }
+
+    const lines = existing.replace(/\r\n/g, "\n").split("\n");
+    const headings = lines.map((line, index) => line.startsWith("## ") ? index : -1).filter(index => index !== -1);
+    const sectionLines = section.replace(/\n+$/, "").split("\n");
+    const key = version.toLowerCase();
+
+    const same = headings.find(index => getHeadingVersion(lines[index]) === key);
+    if (same !== undefined) {
+        const next = headings.find(index => index > same);
+        const end = next === undefined ? trimTrailingBlankLines(lines, lines.length) : next;
+        lines.splice(same, end - same, ...sectionLines, ...(next === undefined ? [] : [""]));
+        return lines.join("\n").replace(/\n*$/, "\n");
+    }
+
+    const insertAt = headings.find(index => getHeadingVersion(lines[index]) !== UNRELEASED.toLowerCase());
+    if (insertAt === undefined) {
+        return `${existing.replace(/\s+$/, "")}\n\n${section}`;
+    }
+    lines.splice(insertAt, 0, ...sectionLines, "");
+    return lines.join("\n").replace(/\n*$/, "\n");
+}
+
+function trimTrailingBlankLines(lines: string[], end: number): number {
+    while (end > 0 && !lines[end - 1].trim()) {
+        end--;
+    }
+    return end;
+}
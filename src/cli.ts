@@ -0,0 +1,371 @@
+#!/usr/bin/env node
+// src/cli.ts
+// The git-commit-gen command: generates commit messages outside of VS Code, e.g. in
+// scripts and CI. The prepare-commit-msg hook runs it as
+// `git-commit-gen hook prepare-commit-msg <file> [source] [sha]`.
+import * as fs from "fs";
+import * as path from "path";
+import { PROVIDERS, ProviderId, getProviderDescriptor, resolveModel } from "./providers";
+import { DiffSource, commitStaged, describeDiffSource, runGit } from "./git";
+import { DEFAULT_CONVENTIONAL_TYPES, buildConventionalPrompt } from "./conventionalCommits";
+import { HeadlessSettings, generateHeadless, getApiKeyEnvVars, getApiKeyFromEnv, getDefaultHeadlessSettings } from "./headless";
+import { HOOK_NAME, fillMessage, getHookSettingsPath, shouldFillMessage } from "./hook";
+
+// --- CLI Options ---
+export interface CliOptions {
+    help: boolean;
+    version: boolean;
+    cwd?: string;
+    configFile?: string;
+    provider?: ProviderId;
+    model?: string;
+    baseUrl?: string;
+    template?: string;          // Saved template name, or a file with the prompt
+    prompt?: string;
+    conventional: boolean;
+    range?: string;             // Staged changes when undefined
+    commit: boolean;
+    json: boolean;
+    temperature?: number;
+    maxPromptTokens?: number;
+    redact: boolean;
+    quiet: boolean;
+}
+
+export const USAGE = `Usage: git-commit-gen [options]
+       git-commit-gen hook ${HOOK_NAME} <message file> [source] [sha]
+
+Writes a commit message for the staged changes, or a commit range, of the
+repository in the current directory and prints it.
+
+Options:
+  --provider <id>           ${PROVIDERS.map(p => p.id).join(", ")}
+  --model <model>           Model ID (default: the provider's default model)
+  --base-url <url>          API base URL of the provider
+  --template <name|file>    A saved template by name, or a file with the prompt
+  --prompt <text>           The prompt text
+  --conventional            Write a Conventional Commit
+  --range <range>           Describe A..B (or REV, meaning REV..HEAD) instead of
+                            the staged changes
+  --commit                  Commit the staged changes with the message
+  --json                    Print the result as JSON
+  --config <file>           JSON file with settings (same keys as the hook snapshot)
+  --temperature <number>
+  --max-prompt-tokens <number>
+  --no-redact               Do not redact secrets from the diff
+  -C <dir>                  Run as if started in <dir>
+  -q, --quiet               No progress messages on stderr
+  -h, --help
+  -v, --version
+
+Settings are taken from the snapshot written when the commit message hook is
+installed from VS Code (if any), then from --config, then from the options.
+API keys are read from ${getApiKeyEnvVars("gemini")[0]} or the provider's usual variable,
+e.g. ${PROVIDERS.filter(p => p.requiresApiKey).map(p => getApiKeyEnvVars(p.id)[1]).join(", ")}.
+
+Exit status: 0 on success, 1 when generation fails or there are no changes,
+2 for invalid options.`;
+
+// Thrown for invalid command lines; reported with exit status 2
+export class UsageError extends Error {}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { help: false, version: false, conventional: false, commit: false, json: false, redact: true, quiet: false };
+    for (let i = 0; i < argv.length; i++) {
+        const [flag, inlineValue] = argv[i].startsWith("--") && argv[i].includes("=")
+            ? [argv[i].substring(0, argv[i].indexOf("=")), argv[i].substring(argv[i].indexOf("=") + 1)]
+            : [argv[i], undefined];
+        const value = (): string => {
+            const next = inlineValue ?? argv[++i];
+            if (next === undefined) {
+                throw new UsageError(`${flag} needs a value.`);
+            }
+            return next;
+        };
+        const numberValue = (): number => {
+            const raw = value();
+            const parsed = Number(raw);
+            if (raw.trim() === "" || Number.isNaN(parsed)) {
+                throw new UsageError(`${flag} needs a number, got "${raw}".`);
+            }
+            return parsed;
+        };
+
+        switch (flag) {
+            case "-h":
+            case "--help":
+                options.help = true;
+                break;
+            case "-v":
+            case "--version":
+                options.version = true;
+                break;
+            case "-q":
+            case "--quiet":
+                options.quiet = true;
+                break;
+            case "-C":
+                options.cwd = value();
+                break;
+            case "--config":
+                options.configFile = value();
+                break;
+            case "--provider": {
+                const id = value();
+                if (!PROVIDERS.some(p => p.id === id)) {
+                    throw new UsageError(`Unknown provider "${id}". Use one of: ${PROVIDERS.map(p => p.id).join(", ")}.`);
+                }
+                options.provider = id as ProviderId;
+                break;
+            }
+            case "--model":
+                options.model = value();
+                break;
+            case "--base-url":
+                options.baseUrl = value();
+                break;
+            case "--template":
+                options.template = value();
+                break;
+            case "--prompt":
+                options.prompt = value();
+                break;
+            case "--conventional":
+                options.conventional = true;
+                break;
+            case "--range":
+                options.range = value();
+                break;
+            case "--commit":
+                options.commit = true;
+                break;
+            case "--json":
+                options.json = true;
+                break;
+            case "--temperature":
+                options.temperature = numberValue();
+                break;
+            case "--max-prompt-tokens":
+                options.maxPromptTokens = numberValue();
+                break;
+            case "--no-redact":
+                options.redact = false;
+                break;
+            default:
+                throw new UsageError(`Unknown option: ${argv[i]}`);
+        }
+    }
+    if (options.commit && options.range) {
+        throw new UsageError("--commit only works with staged changes, not with --range.");
+    }
+    if (options.template && options.prompt) {
+        throw new UsageError("Use either --template or --prompt, not both.");
+    }
+    return options;
+}
+
+// Layers the settings: defaults, the snapshot from VS Code, the --config file, then the options
+export function resolveCliSettings(options: CliOptions, snapshot: Partial<HeadlessSettings> | undefined, configFile: Partial<HeadlessSettings> | undefined, cwd: string): HeadlessSettings {
+    const provider = options.provider ?? configFile?.provider ?? snapshot?.provider;
+    const descriptor = getProviderDescriptor(provider);
+    const settings: HeadlessSettings = { ...getDefaultHeadlessSettings(descriptor.id), ...snapshot, ...configFile, provider: descriptor.id };
+    if (options.provider && options.provider !== snapshot?.provider && options.provider !== configFile?.provider) {
+        // The models and URL of another provider do not carry over
+        settings.model = descriptor.defaultModel;
+        settings.baseUrl = undefined;
+        settings.fallbackModels = undefined;
+    }
+    settings.model = resolveModel(descriptor, options.model ?? settings.model);
+    settings.baseUrl = options.baseUrl ?? settings.baseUrl;
+    settings.temperature = options.temperature ?? settings.temperature;
+    settings.maxPromptTokens = options.maxPromptTokens ?? settings.maxPromptTokens;
+    if (!options.redact) {
+        settings.redaction = undefined;
+    }
+    if (options.conventional && !settings.conventional) {
+        settings.conventional = {
+            rules: { types: DEFAULT_CONVENTIONAL_TYPES, scopes: [], requireScope: false, maxSubjectLength: 72 },
+            maxRepairAttempts: 2,
+        };
+        settings.prompt = buildConventionalPrompt(settings.conventional.rules);
+    }
+
+    const template = options.prompt ?? (options.template !== undefined ? readTemplate(options.template, settings, cwd) : undefined);
+    if (template !== undefined) {
+        // As in the extension, a template adds to the Conventional Commits instructions
+        settings.prompt = settings.conventional
+            ? `${buildConventionalPrompt(settings.conventional.rules)}\n\nAdditional instructions:\n${template}`
+            : template;
+    }
+    return settings;
+}
+
+function readTemplate(nameOrFile: string, settings: HeadlessSettings, cwd: string): string {
+    const saved = settings.templates?.[nameOrFile];
+    if (saved !== undefined) {
+        return saved;
+    }
+    const file = path.resolve(cwd, nameOrFile);
+    if (fs.existsSync(file)) {
+        return fs.readFileSync(file, "utf8");
+    }
+    const names = Object.keys(settings.templates || {});
+    throw new UsageError(`No saved template or file named "${nameOrFile}".${names.length > 0 ? ` Saved templates: ${names.join(", ")}.` : ""}`);
+}
+
+// --- Commands ---
+function log(message: string) {
+    process.stderr.write(`git-commit-gen: ${message}\n`);
+}
+
+function readJsonFile(file: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(file, "utf8"));
+    } catch (error: any) {
+        throw new Error(`Could not read ${file}: ${error.message}`);
+    }
+}
+
+// The settings written by the extension when the hook was installed, if any
+async function readHookSettings(repoPath: string): Promise<HeadlessSettings | undefined> {
+    const settingsPath = await getHookSettingsPath(repoPath);
+    return fs.existsSync(settingsPath) ? readJsonFile(settingsPath) : undefined;
+}
+
+function getApiKey(settings: HeadlessSettings): string {
+    const descriptor = getProviderDescriptor(settings.provider);
+    const apiKey = getApiKeyFromEnv(descriptor.id) || "";
+    if (descriptor.requiresApiKey && !apiKey) {
+        throw new Error(`No ${descriptor.displayName} API key. Set one of ${getApiKeyEnvVars(descriptor.id).join(", ")}.`);
+    }
+    return apiKey;
+}
+
+async function runGenerate(options: CliOptions): Promise<number> {
+    const cwd = path.resolve(options.cwd || process.cwd());
+    const repoPath = (await runGit(cwd, ["rev-parse", "--show-toplevel"])).trim();
+    const settings = resolveCliSettings(
+        options,
+        await readHookSettings(repoPath),
+        options.configFile ? readJsonFile(path.resolve(cwd, options.configFile)) : undefined,
+        cwd
+    );
+    const source: DiffSource = options.range ? { kind: "range", range: options.range } : { kind: "staged" };
+
+    const message = await generateHeadless(repoPath, source, settings, {
+        apiKey: getApiKey(settings),
+        onProgress: options.quiet ? undefined : log,
+    });
+    if (!message) {
+        log(message === undefined ? `No ${describeDiffSource(source)} found.` : "The model returned an empty message.");
+        return 1;
+    }
+
+    const commit = options.commit ? await commitStaged(repoPath, message) : undefined;
+    if (options.json) {
+        process.stdout.write(JSON.stringify({
+            message,
+            provider: settings.provider,
+            model: settings.model,
+            source: describeDiffSource(source),
+            commit,
+        }, null, 2) + "\n");
+    } else {
+        process.stdout.write(commit ? `${commit}\n` : `${message}\n`);
+    }
+    return 0;
+}
+
+// A commit should not wait on a provider forever
+const HOOK_TIMEOUT_MS = 60000;
+
+export async function runPrepareCommitMsgHook(args: string[]): Promise<void> {
+    const [messageFile, source] = args;
+    if (!messageFile) {
+        throw new UsageError(`Usage: git-commit-gen hook ${HOOK_NAME} <message file> [source] [sha]`);
+    }
+    if (process.env.COMMIT_GEN_SKIP) {
+        return;
+    }
+    const content = fs.readFileSync(messageFile, "utf8");
+    if (!shouldFillMessage(source, content)) {
+        return;
+    }
+
+    // Hooks run at the top of the working tree, but git may have changed directories
+    const repoPath = (await runGit(process.cwd(), ["rev-parse", "--show-toplevel"])).trim();
+    const settings = await readHookSettings(repoPath);
+    if (!settings) {
+        log(`${await getHookSettingsPath(repoPath)} is missing. Install the hook again from VS Code.`);
+        return;
+    }
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => abortController.abort(), HOOK_TIMEOUT_MS);
+    try {
+        const message = await generateHeadless(repoPath, { kind: "staged" }, settings, {
+            apiKey: getApiKey(settings),
+            signal: abortController.signal,
+            onProgress: log,
+        });
+        if (!message) {
+            log(message === undefined ? "No staged changes." : "The model returned an empty message.");
+            return;
+        }
+        fs.writeFileSync(messageFile, fillMessage(content, message));
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+export async function main(argv: string[]): Promise<number> {
+    // The shared modules log every step for the extension's output; set COMMIT_GEN_DEBUG to see it here
+    if (!process.env.COMMIT_GEN_DEBUG) {
+        console.log = () => undefined;
+        console.warn = () => undefined;
+        console.error = () => undefined;
+    }
+
+    if (argv[0] === "hook") {
+        if (argv[1] !== HOOK_NAME) {
+            log(`Unknown hook: ${argv[1] ?? "(none)"}`);
+            return 2;
+        }
+        try {
+            await runPrepareCommitMsgHook(argv.slice(2));
+        } catch (error: any) {
+            // Never block the commit; the editor opens with the usual empty message
+            log(`Could not generate a commit message: ${error.message}`);
+        }
+        return 0;
+    }
+
+    let options: CliOptions;
+    try {
+        options = parseCliArgs(argv);
+    } catch (error: any) {
+        log(error.message);
+        process.stderr.write(`Run git-commit-gen --help for the options.\n`);
+        return 2;
+    }
+    if (options.help) {
+        process.stdout.write(`${USAGE}\n`);
+        return 0;
+    }
+    if (options.version) {
+        process.stdout.write(`${readJsonFile(path.join(__dirname, "..", "package.json")).version}\n`);
+        return 0;
+    }
+
+    try {
+        return await runGenerate(options);
+    } catch (error: any) {
+        log(error.message);
+        return error instanceof UsageError ? 2 : 1;
+    }
+}
+
+if (require.main === module) {
+    // Not process.exit(), which can cut off output that is still being written to a pipe
+    main(process.argv.slice(2)).then(code => process.exitCode = code);
+}
@@ -0,0 +1,160 @@
+// src/commitSplit.ts
+import { FileDiff, estimateTokens } from "./diff";
+import { extractJsonObject } from "./conventionalCommits";
+
+// --- Commit Split Types ---
+// The staged changes are split into units the model can group: single hunks, or whole
+// files where hunks cannot be committed separately (new, deleted, renamed and binary
+// files, mode changes). Units are numbered "file.hunk" ("2.1") or "file" ("3").
+export interface SplitUnit {
+    id: string;
+    path: string;
+    label: string;      // The hunk header, or why the file is kept whole
+}
+
+export interface SplitCommit {
+    message: string;
+    units: string[];    // Unit IDs, in diff order
+}
+
+const WHOLE_FILE_HEADER = /^(new file mode|deleted file mode|rename from|copy from|old mode|GIT binary patch|Binary files)/m;
+
+// Lines of a hunk shown to the model when the whole diff does not fit the budget
+const PREVIEW_LINES = 12;
+
+function isWholeFile(file: FileDiff): boolean {
+    return file.hunks.length === 0 || WHOLE_FILE_HEADER.test(file.header);
+}
+
+function describeWholeFile(file: FileDiff): string {
+    const match = file.header.match(WHOLE_FILE_HEADER);
+    switch (match?.[1]) {
+        case "new file mode":
+            return "new file";
+        case "deleted file mode":
+            return "deleted file";
+        case "rename from":
+        case "copy from":
+            return `${match[1].split(" ")[0]}d from ${file.header.match(/^(?:rename|copy) from (.*)$/m)![1]}`;
+        case "old mode":
+            return "mode change";
+        case undefined:
+            return "whole file";
+        default:
+            return "binary file";
+    }
+}
+
+export function getSplitUnits(files: FileDiff[]): SplitUnit[] {
+    return files.flatMap((file, f) => isWholeFile(file)
+        ? [{ id: `${f + 1}`, path: file.path, label: describeWholeFile(file) }]
+        : file.hunks.map((hunk, h) => ({ id: `${f + 1}.${h + 1}`, path: file.path, label: hunk.header })));
+}
+
+// The diff text of one unit (file header plus hunk), e.g. for redaction before sending.
+// Binary patch data means nothing to the model and is left out.
+function getUnitDiff(file: FileDiff, hunkIndex?: number): string {
+    return hunkIndex === undefined
+        ? file.text.replace(/^GIT binary patch[\s\S]*$/m, "(binary contents)")
+        : `${file.header}\n${file.hunks[hunkIndex].text}`;
+}
+
+// Lists every unit with its changes. `prepareUnit` can redact or summarize a unit before it
+// is shown to the model. When everything does not fit `maxTokens`, hunks are shortened.
+export function buildSplitPrompt(
+    files: FileDiff[],
+    messageInstructions: string,
+    maxTokens: number,
+    prepareUnit: (path: string, diff: string) => string = (_, diff) => diff
+): string {
+    const intro = "The staged changes below mix several unrelated edits. Group them into the smallest number of " +
+        "logical commits where each commit makes sense on its own, keeping changes that depend on each other together, " +
+        "and write a commit message for each commit.\n" +
+        "The changes are numbered: \"2.1\" is the first hunk of file 2; a file without hunk numbers can only be committed as a whole.\n" +
+        "Respond with only a JSON object (no Markdown, no explanation) in this format:\n" +
+        '{"commits": [{"message": "<commit message>", "units": ["1.1", "2"]}]}\n' +
+        "Every numbered change must be in exactly one commit. List the commits in the order they should be made.\n\n" +
+        `Write each commit message following these instructions:\n${messageInstructions}`;
+
+    const render = (preview: boolean) => files.map((file, f) => {
+        const units = isWholeFile(file) ? [undefined] : file.hunks.map((_, h) => h);
+        const sections = units.map(h => {
+            const id = h === undefined ? `${f + 1}` : `${f + 1}.${h + 1}`;
+            const body = prepareUnit(file.path, getUnitDiff(file, h)).split("\n");
+            const headerLines = h === undefined ? 0 : file.header.split("\n").length;
+            let lines = body.slice(headerLines);
+            if (preview && lines.length > PREVIEW_LINES) {
+                lines = [...lines.slice(0, PREVIEW_LINES), `(${lines.length - PREVIEW_LINES} more lines)`];
+            }
+            return `[${id}]${h === undefined ? ` ${describeWholeFile(file)}` : ""}\n${lines.join("\n")}`;
+        });
+        return `File ${f + 1}: ${file.path}\n${sections.join("\n")}`;
+    }).join("\n\n");
+
+    let changes = render(false);
+    if (estimateTokens(intro) + estimateTokens(changes) > maxTokens) {
+        changes = render(true);
+    }
+    return `${intro}\n\nThe changes:\n\`\`\`diff\n${changes}\n\`\`\``;
+}
+
+// Reads the grouping from the model response. Unknown IDs are dropped, a hunk of a file
+// that is kept whole selects the file, a file ID selects all of its hunks, and a unit
+// listed twice stays in the first commit. Units the model left out are collected in a
+// last commit without a message, for the user to sort out.
+export function parseSplitPlan(text: string, units: SplitUnit[]): SplitCommit[] {
+    const parsed = extractJsonObject(text);
+    if (!Array.isArray(parsed.commits)) {
+        throw new Error('Response JSON must contain a "commits" array.');
+    }
+
+    const unitIds = units.map(unit => unit.id);
+    const assigned = new Set<string>();
+    const resolve = (id: string): string[] => {
+        if (unitIds.includes(id)) {
+            return [id];
+        }
+        const file = id.split(".")[0];
+        return unitIds.includes(file) ? [file] : unitIds.filter(unitId => unitId.startsWith(`${file}.`));
+    };
+
+    const commits: SplitCommit[] = [];
+    for (const commit of parsed.commits) {
+        const ids = (Array.isArray(commit?.units) ? commit.units : [])
+            .flatMap((id: unknown) => typeof id === "string" || typeof id === "number" ? resolve(String(id).trim()) : [])
+            .filter((id: string) => !assigned.has(id));
+        ids.forEach((id: string) => assigned.add(id));
+        if (ids.length > 0) {
+            commits.push({ message: typeof commit.message === "string" ? commit.message.trim() : "", units: sortUnits(ids, unitIds) });
+        }
+    }
+
+    const remaining = unitIds.filter(id => !assigned.has(id));
+    if (remaining.length > 0) {
+        commits.push({ message: "", units: remaining });
+    }
+    return commits;
+}
+
+function sortUnits(ids: string[], order: string[]): string[] {
+    return [...new Set(ids)].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+}
+
+// A patch with the selected units, for `git apply --cached`. Hunks keep their original
+// line numbers; git apply finds them at an offset when earlier hunks are left out.
+export function buildSplitPatch(files: FileDiff[], unitIds: string[]): string {
+    const parts: string[] = [];
+    files.forEach((file, f) => {
+        if (isWholeFile(file)) {
+            if (unitIds.includes(`${f + 1}`)) {
+                parts.push(file.text);
+            }
+            return;
+        }
+        const hunks = file.hunks.filter((_, h) => unitIds.includes(`${f + 1}.${h + 1}`));
+        if (hunks.length > 0) {
+            parts.push([file.header, ...hunks.map(hunk => hunk.text)].join("\n"));
+        }
+    });
+    return parts.length > 0 ? `${parts.join("\n")}\n` : "";
+}
@@ -0,0 +1,245 @@
+// src/conventionalCommits.ts
+
+// --- Conventional Commit Types ---
+export interface ConventionalCommitFooter {
+    token: string;
+    value: string;
+}
+
+export interface ConventionalCommit {
+    type: string;
+    scope?: string;
+    subject: string;
+    body?: string;
+    breakingChange?: string;
+    footers?: ConventionalCommitFooter[];
+}
+
+export interface ConventionalCommitRules {
+    types: string[];
+    scopes: string[];          // Empty means any scope is allowed
+    requireScope: boolean;
+    maxSubjectLength: number;  // Length of the whole first line, "type(scope)!: subject"
+}
+
+export const DEFAULT_CONVENTIONAL_TYPES = [
+    "feat", "fix", "docs", "style", "refactor", "perf", "test", "build", "ci", "chore", "revert",
+];
+
+// Common model slips mapped to the type that was meant
+const TYPE_ALIASES: { [alias: string]: string } = {
+    feature: "feat",
+    features: "feat",
+    bugfix: "fix",
+    bug: "fix",
+    hotfix: "fix",
+    doc: "docs",
+    documentation: "docs",
+    tests: "test",
+    testing: "test",
+    performance: "perf",
+    refactoring: "refactor",
+};
+
+const BODY_WRAP_WIDTH = 72;
+
+export function buildConventionalPrompt(rules: ConventionalCommitRules): string {
+    const scopeRule = rules.scopes.length > 0
+        ? `"scope" must be one of: ${rules.scopes.join(", ")}${rules.requireScope ? "" : " (or omitted)"}.`
+        : rules.requireScope
+            ? `"scope" is required: a short noun for the area of the code that changed.`
+            : `"scope" is optional: a short noun for the area of the code that changed.`;
+
+    return "Read the diffs attached and write a commit message following the Conventional Commits specification.\n" +
+        "Respond with only a JSON object (no Markdown, no explanation) with these fields:\n" +
+        "{\n" +
+        '  "type": string,\n' +
+        '  "scope": string or null,\n' +
+        '  "subject": string,\n' +
+        '  "body": string or null,\n' +
+        '  "breakingChange": string or null,\n' +
+        '  "footers": [{ "token": string, "value": string }]\n' +
+        "}\n" +
+        `Rules:\n` +
+        `- "type" must be one of: ${rules.types.join(", ")}.\n` +
+        `- ${scopeRule}\n` +
+        `- "subject" is imperative, lower case, without a trailing period, and the line "type(scope): subject" is at most ${rules.maxSubjectLength} characters.\n` +
+        `- "body" explains what and why in plain sentences, or null for trivial changes.\n` +
+        `- "breakingChange" describes what breaks for users, or null if nothing breaks.\n` +
+        `- "footers" lists trailers such as issue references; use an empty array if there are none.`;
+}
+
+// The same rules as plain instructions, for prompts that ask for several messages in
+// another response format (see commitSplit.ts)
+export function buildConventionalInstructions(rules: ConventionalCommitRules): string {
+    const scope = rules.scopes.length > 0
+        ? `one of: ${rules.scopes.join(", ")}`
+        : "a short noun for the area of the code that changed";
+    return "Follow the Conventional Commits specification: the first line is \"type(scope): subject\", then a blank line and an optional body.\n" +
+        `- "type" must be one of: ${rules.types.join(", ")}.\n` +
+        `- "scope" is ${rules.requireScope ? "required" : "optional"}: ${scope}.\n` +
+        `- The subject is imperative, lower case, without a trailing period, and the first line is at most ${rules.maxSubjectLength} characters.`;
+}
+
+// Extracts the JSON object from a model response, tolerating Markdown fences and
+// text around the object.
+export function extractJsonObject(text: string): any {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+        throw new Error("Response does not contain a JSON object.");
+    }
+    try {
+        return JSON.parse(candidate.substring(start, end + 1));
+    } catch (error: any) {
+        throw new Error(`Response is not valid JSON: ${error.message}`);
+    }
+}
+
+export function parseConventionalCommit(text: string): ConventionalCommit {
+    const parsed = extractJsonObject(text);
+    if (typeof parsed.type !== "string" || typeof parsed.subject !== "string") {
+        throw new Error('Response JSON must contain string "type" and "subject" fields.');
+    }
+
+    const optionalString = (value: unknown) => typeof value === "string" && value.trim() ? value.trim() : undefined;
+    return {
+        type: parsed.type.trim(),
+        scope: optionalString(parsed.scope),
+        subject: parsed.subject.trim(),
+        body: optionalString(parsed.body),
+        breakingChange: optionalString(parsed.breakingChange),
+        footers: Array.isArray(parsed.footers)
+            ? parsed.footers
+                .filter((f: any) => f && typeof f.token === "string" && typeof f.value === "string" && f.token.trim() && f.value.trim())
+                .map((f: any) => ({ token: f.token.trim(), value: f.value.trim() }))
+            : [],
+    };
+}
+
+// Fixes violations that have an obvious mechanical fix (case, aliases, trailing period)
+// so only real problems need another round trip to the model.
+export function repairConventionalCommit(commit: ConventionalCommit, rules: ConventionalCommitRules): ConventionalCommit {
+    const type = commit.type.toLowerCase();
+    let subject = commit.subject.replace(/\s+/g, " ").replace(/[.\s]+$/, "");
+    // Lower-case the first word unless it looks like an identifier or acronym (e.g. "API", "README")
+    if (/^[A-Z][a-z]/.test(subject)) {
+        subject = subject.charAt(0).toLowerCase() + subject.substring(1);
+    }
+
+    let scope = commit.scope?.toLowerCase();
+    if (scope && rules.scopes.length > 0) {
+        scope = rules.scopes.find(s => s.toLowerCase() === scope) || scope;
+    }
+
+    return {
+        ...commit,
+        type: rules.types.includes(type) ? type : TYPE_ALIASES[type] && rules.types.includes(TYPE_ALIASES[type]) ? TYPE_ALIASES[type] : type,
+        scope,
+        subject,
+    };
+}
+
+export function validateConventionalCommit(commit: ConventionalCommit, rules: ConventionalCommitRules): string[] {
+    const violations: string[] = [];
+
+    if (!rules.types.includes(commit.type)) {
+        violations.push(`type "${commit.type}" is not allowed; use one of: ${rules.types.join(", ")}`);
+    }
+    if (!commit.scope && rules.requireScope) {
+        violations.push("scope is required");
+    }
+    if (commit.scope && rules.scopes.length > 0 && !rules.scopes.includes(commit.scope)) {
+        violations.push(`scope "${commit.scope}" is not allowed; use one of: ${rules.scopes.join(", ")}`);
+    }
+    if (commit.scope && /[\s()]/.test(commit.scope)) {
+        violations.push("scope must not contain spaces or parentheses");
+    }
+    if (!commit.subject) {
+        violations.push("subject must not be empty");
+    } else if (commit.subject.includes("\n")) {
+        violations.push("subject must be a single line");
+    }
+
+    const header = renderHeader(commit);
+    if (header.length > rules.maxSubjectLength) {
+        violations.push(`first line "${header}" is ${header.length} characters; the maximum is ${rules.maxSubjectLength}`);
+    }
+    for (const footer of commit.footers || []) {
+        if (!/^[A-Za-z][A-Za-z-]*$/.test(footer.token)) {
+            violations.push(`footer token "${footer.token}" must be a single word (use "-" instead of spaces)`);
+        }
+    }
+
+    return violations;
+}
+
+// Last-resort fixes applied when the model could not satisfy the rules: invalid scopes
+// are dropped and an overlong subject is cut at a word boundary.
+export function forceConventionalCommit(commit: ConventionalCommit, rules: ConventionalCommitRules): ConventionalCommit {
+    const forced = { ...commit };
+    if (forced.scope && rules.scopes.length > 0 && !rules.scopes.includes(forced.scope)) {
+        forced.scope = undefined;
+    }
+    const overflow = renderHeader(forced).length - rules.maxSubjectLength;
+    if (overflow > 0) {
+        const cut = forced.subject.substring(0, forced.subject.length - overflow);
+        const lastSpace = cut.lastIndexOf(" ");
+        forced.subject = (lastSpace > 0 ? cut.substring(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, "");
+    }
+    return forced;
+}
+
+function renderHeader(commit: ConventionalCommit): string {
+    const scope = commit.scope ? `(${commit.scope})` : "";
+    const bang = commit.breakingChange ? "!" : "";
+    return `${commit.type}${scope}${bang}: ${commit.subject}`;
+}
+
+export function renderConventionalCommit(commit: ConventionalCommit): string {
+    const parts = [renderHeader(commit)];
+
+    if (commit.body) {
+        parts.push(wrapText(commit.body, BODY_WRAP_WIDTH));
+    }
+
+    const footers: string[] = [];
+    if (commit.breakingChange) {
+        footers.push(`BREAKING CHANGE: ${commit.breakingChange}`);
+    }
+    for (const footer of commit.footers || []) {
+        footers.push(`${footer.token}: ${footer.value}`);
+    }
+    if (footers.length > 0) {
+        parts.push(footers.join("\n"));
+    }
+
+    return parts.join("\n\n");
+}
+
+// Wraps long lines at word boundaries, keeping existing line breaks and the
+// indentation of list items.
+function wrapText(text: string, width: number): string {
+    return text.split("\n").map(line => {
+        if (line.length <= width) {
+            return line;
+        }
+        const indent = line.match(/^(\s*(?:[-*]\s+)?)/)![1];
+        const continuation = " ".repeat(indent.length);
+        const words = line.substring(indent.length).split(/\s+/);
+        const lines: string[] = [];
+        let current = indent;
+        for (const word of words) {
+            if (current.trim() && (current + " " + word).length > width) {
+                lines.push(current);
+                current = continuation + word;
+            } else {
+                current = current.trim() ? `${current} ${word}` : current + word;
+            }
+        }
+        lines.push(current);
+        return lines.join("\n");
+    }).join("\n");
+}
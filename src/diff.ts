@@ -0,0 +1,138 @@
+// src/diff.ts
+
+// --- Diff Types ---
+export interface DiffHunk {
+    header: string; // The "@@ -a,b +c,d @@" line
+    text: string;   // Header plus body lines
+}
+
+export interface FileDiff {
+    path: string;
+    header: string; // Everything from "diff --git" up to the first hunk
+    hunks: DiffHunk[];
+    text: string;   // The complete diff for this file
+}
+
+// Rough token estimate. Providers tokenize differently, but ~4 characters per token
+// holds well enough for code to keep prompts inside a budget.
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Splits unified `git diff` output into per-file sections with their hunks.
+export function parseDiff(diff: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    const sections = diff.split(/^(?=diff --git )/m).filter(section => section.trim());
+
+    for (const section of sections) {
+        const lines = section.replace(/\n$/, "").split("\n");
+        const firstHunk = lines.findIndex(line => line.startsWith("@@"));
+        const headerLines = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+        const hunks: DiffHunk[] = [];
+
+        if (firstHunk !== -1) {
+            let current: string[] = [];
+            for (const line of lines.slice(firstHunk)) {
+                if (line.startsWith("@@") && current.length > 0) {
+                    hunks.push({ header: current[0], text: current.join("\n") });
+                    current = [];
+                }
+                current.push(line);
+            }
+            if (current.length > 0) {
+                hunks.push({ header: current[0], text: current.join("\n") });
+            }
+        }
+
+        files.push({
+            path: getDiffPath(headerLines),
+            header: headerLines.join("\n"),
+            hunks,
+            text: lines.join("\n"),
+        });
+    }
+
+    return files;
+}
+
+function getDiffPath(headerLines: string[]): string {
+    // Prefer the "+++ b/path" line, fall back to "--- a/path" for deletions
+    const plus = headerLines.find(line => line.startsWith("+++ ") && !line.endsWith("/dev/null"));
+    if (plus) {
+        return plus.substring(4).replace(/^b\//, "");
+    }
+    const minus = headerLines.find(line => line.startsWith("--- ") && !line.endsWith("/dev/null"));
+    if (minus) {
+        return minus.substring(4).replace(/^a\//, "");
+    }
+    const match = headerLines[0]?.match(/^diff --git a\/(.+) b\/(.+)$/);
+    return match ? match[2] : headerLines[0] || "";
+}
+
+// Splits a diff into chunks that each stay under `maxTokens`. Whole files are kept
+// together where possible; oversized files are split per hunk (repeating the file
+// header so each chunk still says which file it belongs to), and oversized hunks
+// are split by lines as a last resort.
+export function chunkDiff(diff: string, maxTokens: number): string[] {
+    const units: string[] = [];
+
+    for (const file of parseDiff(diff)) {
+        if (estimateTokens(file.text) <= maxTokens || file.hunks.length === 0) {
+            units.push(file.text);
+            continue;
+        }
+
+        const headerTokens = estimateTokens(file.header + "\n");
+        let current = "";
+        for (const hunk of file.hunks) {
+            for (const piece of splitOversizedHunk(hunk, maxTokens - headerTokens)) {
+                if (current && estimateTokens(current + "\n" + piece) > maxTokens - headerTokens) {
+                    units.push(`${file.header}\n${current}`);
+                    current = "";
+                }
+                current = current ? `${current}\n${piece}` : piece;
+            }
+        }
+        if (current) {
+            units.push(`${file.header}\n${current}`);
+        }
+    }
+
+    // Pack the units greedily into chunks
+    const chunks: string[] = [];
+    let current = "";
+    for (const unit of units) {
+        if (current && estimateTokens(current + "\n" + unit) > maxTokens) {
+            chunks.push(current);
+            current = "";
+        }
+        current = current ? `${current}\n${unit}` : unit;
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+}
+
+function splitOversizedHunk(hunk: DiffHunk, maxTokens: number): string[] {
+    if (estimateTokens(hunk.text) <= maxTokens) {
+        return [hunk.text];
+    }
+
+    const pieces: string[] = [];
+    const bodyLines = hunk.text.split("\n").slice(1);
+    let current: string[] = [hunk.header];
+    let currentTokens = estimateTokens(hunk.header);
+    for (const line of bodyLines) {
+        const lineTokens = estimateTokens(line + "\n");
+        if (current.length > 1 && currentTokens + lineTokens > maxTokens) {
+            pieces.push(current.join("\n"));
+            current = [`${hunk.header} (continued)`];
+            currentTokens = estimateTokens(current[0]);
+        }
+        current.push(line);
+        currentTokens += lineTokens;
+    }
+    pieces.push(current.join("\n"));
+    return pieces;
+}
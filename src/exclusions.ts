@@ -0,0 +1,134 @@
+// src/exclusions.ts
+import * as fs from "fs";
+import * as path from "path";
+import { FileDiff, parseDiff } from "./diff";
+import { matchesGlob } from "./glob";
+
+// --- Exclusion Types ---
+export interface FileStat {
+    path: string;
+    added?: number;   // Undefined for binary files
+    deleted?: number;
+}
+
+export interface ExclusionResult {
+    diff: string;
+    excludedFiles: string[];
+}
+
+export const IGNORE_FILE_NAME = ".commitgenignore";
+
+// Lockfiles are always rewritten by a tool, so "regenerated" describes them better than a line count
+const LOCKFILE_NAMES = [
+    "package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb",
+    "Cargo.lock", "poetry.lock", "Pipfile.lock", "composer.lock", "Gemfile.lock", "go.sum", "packages.lock.json",
+];
+
+// The default of the ignoredFiles setting, for generation outside of VS Code
+export const DEFAULT_IGNORED_FILES = [
+    "package-lock.json", "npm-shrinkwrap.json", "yarn.lock", "pnpm-lock.yaml", "Cargo.lock", "poetry.lock",
+    "composer.lock", "Gemfile.lock", "go.sum", "*.min.js", "*.min.css", "*.map", "*.snap", "__snapshots__/",
+];
+
+// Reads a .commitgenignore file: one glob per line, "#" comments, "!" re-includes.
+export function parseIgnoreFile(content: string): string[] {
+    return content
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith("#"));
+}
+
+// Patterns of the repository's .commitgenignore, or none when it does not exist
+export function readIgnoreFile(repoPath: string): string[] {
+    try {
+        return parseIgnoreFile(fs.readFileSync(path.join(repoPath, IGNORE_FILE_NAME), "utf8"));
+    } catch (error: any) {
+        if (error.code !== "ENOENT") {
+            console.error(`Failed to read ${IGNORE_FILE_NAME}:`, error);
+        }
+        return [];
+    }
+}
+
+// Patterns are applied in order and the last matching one wins, so a later "!pattern"
+// (e.g. in .commitgenignore) can re-include a file excluded by the settings.
+export function isExcludedFile(filePath: string, patterns: string[]): boolean {
+    let excluded = false;
+    for (const pattern of patterns) {
+        const negated = pattern.startsWith("!");
+        if (matchesGlob(filePath, negated ? pattern.substring(1) : pattern)) {
+            excluded = !negated;
+        }
+    }
+    return excluded;
+}
+
+// Parses `git diff --numstat` output ("added<TAB>deleted<TAB>path", "-" for binary files).
+export function parseNumstat(output: string): FileStat[] {
+    return output.split(/\r?\n/).filter(line => line.trim()).map(line => {
+        const [added, deleted, ...rest] = line.split("\t");
+        return {
+            path: normalizeRenamePath(rest.join("\t")),
+            added: added === "-" ? undefined : Number(added),
+            deleted: deleted === "-" ? undefined : Number(deleted),
+        };
+    });
+}
+
+// "src/{old => new}/a.ts" and "old.ts => new.ts" become the new path
+function normalizeRenamePath(numstatPath: string): string {
+    const braces = numstatPath.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+    if (braces) {
+        return (braces[1] + braces[3] + braces[4]).replace(/\/\//g, "/");
+    }
+    const arrow = numstatPath.indexOf(" => ");
+    return arrow === -1 ? numstatPath : numstatPath.substring(arrow + 4);
+}
+
+export function summarizeExcludedFile(file: FileDiff): string {
+    const header = file.header;
+    const name = file.path.substring(file.path.lastIndexOf("/") + 1);
+    let change = "modified";
+    if (/^new file mode/m.test(header)) {
+        change = "added";
+    } else if (/^deleted file mode/m.test(header)) {
+        change = "deleted";
+    } else if (/^rename from /m.test(header)) {
+        change = `renamed from ${header.match(/^rename from (.*)$/m)![1]}`;
+    } else if (LOCKFILE_NAMES.includes(name)) {
+        change = "regenerated";
+    }
+    return `${file.path}: ${change}`;
+}
+
+function formatStat(stat: FileStat): string {
+    return stat.added === undefined ? "binary" : `+${stat.added} -${stat.deleted}`;
+}
+
+// Replaces the hunks of excluded files with one-line summaries and puts per-file line
+// statistics in front of the diff, so the model still knows every file that changed.
+export function applyExclusions(diff: string, stats: FileStat[], patterns: string[]): ExclusionResult {
+    const files = parseDiff(diff);
+    const excluded = files.filter(file => isExcludedFile(file.path, patterns));
+    if (excluded.length === 0) {
+        return { diff, excludedFiles: [] };
+    }
+
+    const excludedPaths = excluded.map(file => file.path);
+    const statLines = stats.map(stat =>
+        `${stat.path} | ${formatStat(stat)}${excludedPaths.includes(stat.path) ? " (excluded from the diff)" : ""}`);
+    const included = files.filter(file => !excludedPaths.includes(file.path)).map(file => file.text);
+
+    const overview = [
+        "Staged files (lines added and removed):",
+        ...statLines,
+        "",
+        "Files excluded from the diff, summarized:",
+        ...excluded.map(summarizeExcludedFile),
+    ].join("\n");
+
+    return {
+        diff: included.length > 0 ? `${overview}\n\n${included.join("\n")}` : overview,
+        excludedFiles: excludedPaths,
+    };
+}
@@ -2,248 +2,1652 @@
 import * as vscode from "vscode";
 import * as cp from "child_process";
 import * as path from "path";
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
+import * as fs from "fs";
+import {
+    GenerationParameters,
+    ModelInfo,
+    PROVIDERS,
+    SAFETY_CATEGORIES,
+    SafetyThreshold,
+    createProvider,
+    getProviderDescriptor,
+    mergeGenerationParameters,
+    resolveModel,
+} from "./providers";
+import { ApiKeyStore } from "./secrets";
+import { RedactionRules, describeRedactions, redactDiff } from "./redaction";
+import { applyExclusions, isExcludedFile, readIgnoreFile, summarizeExcludedFile } from "./exclusions";
+import {
+    CommitInfo,
+    DiffSource,
+    commitInGroups,
+    describeDiffSource,
+    getBranches,
+    getCommitDate,
+    getCommitLog,
+    getCurrentBranch,
+    getDiff,
+    getNearestTag,
+    getNumstat,
+    getRecentCommits,
+    getStagedPatch,
+    getTags,
+    isCommitPublished,
+    rewordCommit,
+} from "./git";
+import {
+    ActiveProviderSettings,
+    GenerateCommitMessageOptions,
+    ModelFailure,
+    ModelUsage,
+    generateCommitMessage,
+    generateConventionalCommitMessage,
+    buildRefinementPrompt,
+    describeFallback,
+    prepareGenerationPrompt,
+} from "./generator";
+import { DEFAULT_RETRY_SETTINGS, RetrySettings } from "./retry";
+import { ConventionalCommitRules, DEFAULT_CONVENTIONAL_TYPES, buildConventionalInstructions, buildConventionalPrompt } from "./conventionalCommits";
+import { CommitHistoryStore, HistoryEntry, watchForCommits } from "./history";
+import { SavedTemplates, findProjectTemplate, getDefaultPrompt, isSamePath, resolvePromptTemplate } from "./templates";
+import {
+    DEFAULT_PULL_REQUEST_TEMPLATE,
+    PullRequestTemplate,
+    buildPullRequestPrompt,
+    parsePullRequest,
+    renderPullRequestDocument,
+} from "./pullRequest";
+import {
+    UNRELEASED,
+    buildChangelogPrompt,
+    getDefaultChangelogPrompt,
+    parseChangelogEntries,
+    renderChangelogSection,
+    updateChangelog,
+} from "./changelog";
+import { FileDiff, estimateTokens, parseDiff } from "./diff";
+import { RepositoryContext, buildRepositoryContextPrompt, readRepositoryContext } from "./repoContext";
+import { TicketPlacement, TicketSettings, extractTicketId, insertTicketId } from "./tickets";
+import { HeadlessSettings, getApiKeyEnvVars } from "./headless";
+import { ResponseCache, getCacheKey } from "./cache";
+import { ModelListCache, describeModel, getModelListKey } from "./models";
+import {
+    DEFAULT_PRICES,
+    PriceTable,
+    UsageBudget,
+    UsageGroup,
+    UsageStore,
+    UsageSummary,
+    UsageTotals,
+    checkBudget,
+    formatCost,
+    getMonthStart,
+    summarizeUsage,
+} from "./usage";
+import { buildHookScript, installHook, isHookInstalled, uninstallHook } from "./hook";
+import { SplitCommit, SplitUnit, buildSplitPatch, buildSplitPrompt, getSplitUnits, parseSplitPlan } from "./commitSplit";
 
 console.log("!!! MODULE LOADED: src/extension.ts !!!"); // Keep this
 
-// --- Helper Function for Default Prompt ---
-function getDefaultPrompt(): string {
-    return "Read the diffs attached and give me a commit message in this form:\n" +
-           "modified(*file/path*) to change this and this\n" +
-           "You can choose (modified, deleted, added) and the message can be anything like change, fix, add, etc.\n" +
-           "Keep it short and clean and in the same form, keeping the path inside () and a new line between each mod line.";
+// --- Provider Settings ---
+async function getActiveProviderSettings(config: vscode.WorkspaceConfiguration, keyStore: ApiKeyStore): Promise<ActiveProviderSettings> {
+    const descriptor = getProviderDescriptor(config.get<string>("provider"));
+    const activeKey = await keyStore.getActiveKey(descriptor.id);
+    return {
+        descriptor,
+        model: resolveModel(descriptor, config.get<string>("selectedModel")),
+        apiKey: activeKey?.value || "",
+        apiKeyLabel: activeKey?.label,
+        baseUrl: config.get<string>(`${descriptor.id}BaseUrl`) || undefined,
+        fallbackModels: config.get<string[]>("fallbackModels") || [],
+        retry: getRetrySettings(config),
+    };
 }
 
-// Store commit message history
-const commitMessageHistory: string[] = [];
-const MAX_HISTORY_SIZE = 10;
+function getRetrySettings(config: vscode.WorkspaceConfiguration): RetrySettings {
+    return {
+        ...DEFAULT_RETRY_SETTINGS,
+        maxRetries: Math.max(0, Math.min(5, config.get<number>("maxRetries") ?? DEFAULT_RETRY_SETTINGS.maxRetries)),
+        timeoutMs: Math.max(0, config.get<number>("requestTimeoutSeconds") ?? DEFAULT_RETRY_SETTINGS.timeoutMs / 1000) * 1000,
+    };
+}
+
+// Settings below "generation." that the Settings section of the view can change
+const GENERATION_SETTING_KEYS = [
+    "temperature",
+    "topP",
+    "maxOutputTokens",
+    "stopSequences",
+    "systemInstruction",
+    ...SAFETY_CATEGORIES.map(category => `safety.${category}`),
+];
+
+// Unset (null) values and an empty system instruction leave the provider default
+function getGenerationParameters(config: vscode.WorkspaceConfiguration): GenerationParameters {
+    const stopSequences = (config.get<string[]>("generation.stopSequences") || []).filter(stop => stop !== "");
+    return {
+        temperature: config.get<number | null>("generation.temperature") ?? undefined,
+        topP: config.get<number | null>("generation.topP") ?? undefined,
+        maxOutputTokens: config.get<number | null>("generation.maxOutputTokens") ?? undefined,
+        stopSequences: stopSequences.length > 0 ? stopSequences : undefined,
+        systemInstruction: config.get<string>("generation.systemInstruction")?.trim() || undefined,
+        safety: Object.fromEntries(SAFETY_CATEGORIES.map(category => [category, config.get<SafetyThreshold>(`generation.safety.${category}`)])),
+    };
+}
+
+// --- Model Discovery ---
+function getModelListCacheKey(providerSettings: ActiveProviderSettings): string {
+    return getModelListKey(providerSettings.descriptor.id, providerSettings.baseUrl, providerSettings.apiKey);
+}
+
+// The models to offer: the last list from the provider's API, or the built-in list
+// before the provider was asked
+function getKnownModels(providerSettings: ActiveProviderSettings, modelCache: ModelListCache): ModelInfo[] {
+    return modelCache.get(getModelListCacheKey(providerSettings))?.models ?? providerSettings.descriptor.models;
+}
+
+// Asks the provider which models the configured key (or server) can use and caches the list
+async function discoverModels(providerSettings: ActiveProviderSettings, modelCache: ModelListCache): Promise<ModelInfo[]> {
+    const { descriptor } = providerSettings;
+    if (descriptor.requiresApiKey && !providerSettings.apiKey) {
+        throw new Error(`Set an API key for ${descriptor.displayName} to list its models.`);
+    }
+    console.log(`Listing ${descriptor.displayName} models...`);
+    const provider = createProvider(descriptor.id, { apiKey: providerSettings.apiKey, baseUrl: providerSettings.baseUrl });
+    const models = await provider.listModels();
+    if (models.length === 0) {
+        throw new Error(`${descriptor.displayName} did not list any models.`);
+    }
+    await modelCache.set(getModelListCacheKey(providerSettings), models);
+    return models;
+}
+
+// Any model ID the provider accepts, e.g. one released after the model list was cached
+async function enterCustomModel(config: vscode.WorkspaceConfiguration, currentModel: string): Promise<string | undefined> {
+    const model = await vscode.window.showInputBox({
+        prompt: "Enter the model ID to use with the selected provider",
+        value: currentModel,
+        validateInput: value => value.trim() ? undefined : "Enter a model ID.",
+    });
+    if (!model) {
+        return undefined;
+    }
+    await config.update("selectedModel", model.trim(), vscode.ConfigurationTarget.Global);
+    return model.trim();
+}
+
+// --- Usage ---
+function getUsageBudget(config: vscode.WorkspaceConfiguration): UsageBudget {
+    return {
+        softLimit: config.get<number | null>("usage.softMonthlyBudget") ?? undefined,
+        hardLimit: config.get<number | null>("usage.hardMonthlyBudget") ?? undefined,
+    };
+}
+
+// The built-in prices, then prices from the providers' model lists, then the usage.prices setting
+function getPriceTable(config: vscode.WorkspaceConfiguration, modelCache: ModelListCache): PriceTable {
+    const listed = modelCache.getAllModels().filter(model => model.pricing).map(model => [model.id, model.pricing!]);
+    return { ...DEFAULT_PRICES, ...Object.fromEntries(listed), ...config.get<PriceTable>("usage.prices") };
+}
+
+// For single requests; candidates show the notice on their card instead
+function showFallbackNotice(model: string, failures: ModelFailure[]) {
+    vscode.window.showWarningMessage(describeFallback(model, failures));
+}
+
+function getConventionalCommitRules(config: vscode.WorkspaceConfiguration): ConventionalCommitRules {
+    const types = config.get<string[]>("conventionalCommits.types");
+    return {
+        types: types && types.length > 0 ? types : DEFAULT_CONVENTIONAL_TYPES,
+        scopes: config.get<string[]>("conventionalCommits.scopes") || [],
+        requireScope: config.get<boolean>("conventionalCommits.requireScope") || false,
+        maxSubjectLength: config.get<number>("conventionalCommits.maxSubjectLength") || 72,
+    };
+}
+
+interface GenerationPrompt {
+    prompt: string;
+    templateName?: string;
+    parameters: GenerationParameters;   // The settings, with the template's overrides
+    conventional?: { rules: ConventionalCommitRules, maxRepairAttempts: number };
+}
+
+// The prompt for a repository (see resolvePromptTemplate) and, with the Conventional
+// Commits style, the rules the generated message is checked against.
+function resolveGenerationPrompt(repoPath: string, config: vscode.WorkspaceConfiguration, repoConfig: vscode.WorkspaceConfiguration): GenerationPrompt {
+    const resolvedPrompt = resolvePromptTemplate(
+        repoPath,
+        config.get<SavedTemplates>("savedTemplates") || {},
+        config.get<string>("defaultTemplateId"),
+        repoConfig.get<string>("prompt")
+    );
+    console.log(`Using ${resolvedPrompt.source} prompt${resolvedPrompt.templateName ? ` (template "${resolvedPrompt.templateName}")` : ""}.`);
+    const parameters = mergeGenerationParameters(getGenerationParameters(config), resolvedPrompt.parameters);
+    if (repoConfig.get<string>("commitStyle") !== "conventional") {
+        return { prompt: resolvedPrompt.prompt, templateName: resolvedPrompt.templateName, parameters };
+    }
+
+    const rules = getConventionalCommitRules(repoConfig);
+    let conventionalPrompt = buildConventionalPrompt(rules);
+    // A custom template adds to the Conventional Commits instructions
+    // instead of replacing them; the built-in one would contradict them.
+    if (resolvedPrompt.source !== "builtin" && resolvedPrompt.prompt !== getDefaultPrompt()) {
+        conventionalPrompt += `\n\nAdditional instructions:\n${resolvedPrompt.prompt}`;
+    }
+    return {
+        prompt: conventionalPrompt,
+        templateName: resolvedPrompt.templateName,
+        parameters,
+        conventional: {
+            rules,
+            maxRepairAttempts: config.get<number>("conventionalCommits.maxRepairAttempts") ?? 2,
+        },
+    };
+}
+
+// --- Git Helpers ---
+// The built-in Git extension's repository object for a path, if it is open.
+function getScmRepository(repoPath: string): any {
+    const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
+    const api = gitExtension?.getAPI(1);
+    return api?.repositories.find((r: { rootUri: { fsPath: string } }) => r.rootUri.fsPath === repoPath);
+}
+
+// The repository containing a file; the Git API resolves nested repositories.
+function getScmRepositoryForFile(uri: vscode.Uri): any {
+    const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
+    const api = gitExtension?.getAPI(1);
+    return api?.getRepository(uri) || undefined;
+}
+
+// Path of the repository currently selected in the SCM view, or the only one open.
+function getSelectedScmRepoPath(): string | undefined {
+    const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
+    const api = gitExtension?.getAPI(1);
+    if (!api || api.repositories.length === 0) {
+        return undefined;
+    }
+    const repo = api.repositories.find((r: any) => r.ui.selected) || (api.repositories.length === 1 ? api.repositories[0] : undefined);
+    return repo?.rootUri.fsPath;
+}
+
+// Exclusion globs from every settings level (default, user, workspace, folder) followed
+// by the repository's .commitgenignore; later patterns win, so "!glob" re-includes a file.
+function getExclusionPatterns(repoPath: string, config: vscode.WorkspaceConfiguration): string[] {
+    return [...getConfiguredExclusionPatterns(config), ...readIgnoreFile(repoPath)];
+}
+
+function getConfiguredExclusionPatterns(config: vscode.WorkspaceConfiguration): string[] {
+    const inspected = config.inspect<string[]>("ignoredFiles");
+    return [
+        ...(inspected?.defaultValue || []),
+        ...(inspected?.globalValue || []),
+        ...(inspected?.workspaceValue || []),
+        ...(inspected?.workspaceFolderValue || []),
+    ];
+}
+
+function getTicketSettings(config: vscode.WorkspaceConfiguration): TicketSettings {
+    return {
+        placement: config.get<TicketPlacement>("ticket.placement") || "none",
+        format: config.get<string>("ticket.format") || "",
+    };
+}
+
+function findTicketId(branch: string, config: vscode.WorkspaceConfiguration): string | undefined {
+    const result = extractTicketId(branch, config.get<string[]>("ticket.branchPatterns") || []);
+    if (result.invalidPatterns.length > 0) {
+        vscode.window.showWarningMessage(`Ignoring invalid ticket branch patterns: ${result.invalidPatterns.join(", ")}`);
+    }
+    return result.ticketId;
+}
+
+// The ticket key to add to generated messages, when a placement is configured and the
+// current branch has a key
+async function getTicketInsertion(repoPath: string, config: vscode.WorkspaceConfiguration, branchTicketId?: string): Promise<GenerationSession["ticket"]> {
+    const settings = getTicketSettings(config);
+    if (settings.placement === "none") {
+        return undefined;
+    }
+    let ticketId = branchTicketId;
+    if (!ticketId) {
+        const branch = await getCurrentBranch(repoPath);
+        ticketId = branch ? findTicketId(branch, config) : undefined;
+    }
+    console.log(ticketId ? `Adding ticket ${ticketId} to generated messages (${settings.placement}).` : "No ticket key found in the branch name.");
+    return ticketId ? { id: ticketId, settings } : undefined;
+}
+
+function getRecentCommitCount(config: vscode.WorkspaceConfiguration): number {
+    return Math.max(0, Math.min(50, config.get<number>("repositoryContext.recentCommitCount") ?? 10));
+}
+
+// Recent subjects, branch and ticket of the repository, when enabled. `excludeSha` leaves
+// out the commit that is being reworded, so its current message is not used as an example.
+async function getRepositoryContext(repoPath: string, config: vscode.WorkspaceConfiguration, excludeSha?: string): Promise<RepositoryContext | undefined> {
+    if (!config.get<boolean>("repositoryContext.enabled")) {
+        return undefined;
+    }
+    const context = await readRepositoryContext(repoPath, getRecentCommitCount(config), excludeSha);
+    context.ticketId = context.branch ? findTicketId(context.branch, config) : undefined;
+    return context;
+}
+
+function getRedactionRules(config: vscode.WorkspaceConfiguration): RedactionRules {
+    return {
+        customPatterns: config.get<string[]>("redaction.customPatterns") || [],
+        excludedFiles: config.get<string[]>("redaction.excludedFiles") || [],
+        detectHighEntropyStrings: config.get<boolean>("redaction.detectHighEntropyStrings", true),
+    };
+}
+
+// Runs the redaction pass over a diff before it is sent to a provider. Returns undefined
+// when the user aborts after seeing what was redacted.
+async function redactDiffForUpload(diff: string, config: vscode.WorkspaceConfiguration): Promise<string | undefined> {
+    if (!config.get<boolean>("redaction.enabled", true)) {
+        return diff;
+    }
+    const result = redactDiff(diff, getRedactionRules(config));
+    if (result.invalidPatterns.length > 0) {
+        vscode.window.showWarningMessage(`Ignoring invalid redaction patterns: ${result.invalidPatterns.join(", ")}`);
+    }
+
+    const findings = describeRedactions(result);
+    if (findings.length === 0) {
+        return result.diff;
+    }
+    console.log("Redacted before sending:", findings);
+    if (!config.get<boolean>("redaction.confirm", true)) {
+        return result.diff;
+    }
+    const selection = await vscode.window.showWarningMessage(
+        "Possible secrets were found in the diff and will be redacted before it is sent.",
+        { modal: true, detail: findings.join("\n") },
+        "Send Redacted Diff"
+    );
+    return selection === "Send Redacted Diff" ? result.diff : undefined;
+}
+
+// Aborts the generation in progress, if any (notification or webview Cancel button)
+let activeGeneration: AbortController | undefined;
+
+// --- Generation Sessions ---
+// Everything needed to generate messages for one request. The latest session is kept so
+// single candidates can be regenerated from the webview without re-reading the diff.
+interface GenerationSession {
+    repoPath: string;
+    repoName: string;
+    templateName?: string;
+    options: GenerateCommitMessageOptions;
+    conventional?: { rules: ConventionalCommitRules, maxRepairAttempts: number };
+    temperatures: Array<number | undefined>;
+    ticket?: { id: string, settings: TicketSettings };  // Inserted into every generated message
+    preparing?: Promise<string>;    // See getPreparedPrompt()
+}
+
+let currentSession: GenerationSession | undefined;
+
+// --- Commit Splits ---
+// The staged changes a split plan was made for. The patches of the plan are cut from
+// this diff, so the plan is only executed while the index still matches it.
+interface SplitSession {
+    repoPath: string;
+    repoName: string;
+    stagedPatch: string;
+    files: FileDiff[];
+    units: SplitUnit[];
+    provider: string;
+    model: string;
+}
+
+let currentSplit: SplitSession | undefined;
+
+interface CandidateCard {
+    text: string;
+    status: "generating" | "done" | "error";
+    warning?: string;
+}
+
+interface Refinement {
+    message: string;      // The message as currently shown (possibly edited by the user)
+    instruction: string;  // e.g. "shorter", "mention the migration"
+}
+
+// One candidate uses the provider's default temperature; several are spread from
+// focused (0.3) to creative (1.0) so they actually differ.
+function getCandidateTemperatures(count: number): Array<number | undefined> {
+    if (count <= 1) {
+        return [undefined];
+    }
+    return Array.from({ length: count }, (_, i) => Math.round((0.3 + i * 0.7 / (count - 1)) * 100) / 100);
+}
+
+// Summarizes an oversized diff once per session; candidates generated at the same time
+// share the pending result. Not needed at all when every candidate comes from the cache.
+function getPreparedPrompt(session: GenerationSession, signal: AbortSignal): Promise<string> {
+    if (!session.preparing) {
+        const preparing = prepareGenerationPrompt({ ...session.options, signal });
+        session.preparing = preparing;
+        // A cancelled or failed attempt is retried by the next generation
+        preparing.catch(() => {
+            if (session.preparing === preparing) {
+                session.preparing = undefined;
+            }
+        });
+    }
+    return session.preparing;
+}
+
+function getSessionCacheKey(session: GenerationSession, temperature: number | undefined): string {
+    const { providerSettings } = session.options;
+    return getCacheKey({
+        provider: providerSettings.descriptor.id,
+        model: providerSettings.model,
+        baseUrl: providerSettings.baseUrl,
+        temperature,
+        parameters: session.options.parameters,
+        prompt: session.options.prompt,
+        diff: session.options.diff,
+    });
+}
+
+// With `cache`, the response is stored for the next generation of the same request, and
+// read from it unless `cache.read` is false (regenerating). The ticket key is added
+// afterwards, so cached messages do not depend on the branch.
+async function generateForSession(
+    session: GenerationSession,
+    temperature: number | undefined,
+    signal: AbortSignal,
+    onToken?: (text: string) => void,
+    cache?: { store: ResponseCache, read: boolean }
+): Promise<{ message: string, violations: string[], cached: boolean, fallback?: string }> {
+    let fallback: string | undefined;
+    const cacheKey = cache ? getSessionCacheKey(session, temperature) : undefined;
+    let result = cache?.read && cacheKey ? cache.store.get(cacheKey) : undefined;
+    const cached = result !== undefined;
+    if (result) {
+        console.log(`Using cached response ${cacheKey!.substring(0, 12)}`);
+    } else {
+        const preparedPrompt = session.options.preparedPrompt ?? await getPreparedPrompt(session, signal);
+        const options = {
+            ...session.options,
+            preparedPrompt,
+            temperature,
+            signal,
+            onToken,
+            onFallback: (model: string, failures: ModelFailure[]) => fallback = describeFallback(model, failures),
+        };
+        result = session.conventional
+            ? await generateConventionalCommitMessage({ ...options, ...session.conventional })
+            : { message: await generateCommitMessage(options), violations: [] };
+        if (cache && cacheKey && result.message.trim()) {
+            await cache.store.set(cacheKey, result);
+        }
+    }
+    const message = session.ticket ? insertTicketId(result.message, session.ticket.id, session.ticket.settings) : result.message;
+    return { message, violations: result.violations, cached, fallback };
+}
+
+// Puts the message into the repository's SCM input box, or on the clipboard when the
+// repository is not open in the Git extension.
+async function applyCommitMessage(repoPath: string, message: string) {
+    const repo = getScmRepository(repoPath);
+    if (repo) {
+        repo.inputBox.value = message;
+        vscode.window.showInformationMessage("Commit message applied to Git input box.");
+    } else {
+        await vscode.env.clipboard.writeText(message);
+        vscode.window.showWarningMessage("Commit message copied to clipboard (Git repository not found).");
+    }
+}
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("Activating git-diff-commit-generator...");
   // vscode.window.showInformationMessage("Minimal Activation Successful!3"); // Less noisy
 
+  // API keys live in SecretStorage; move any left over in settings.json there first
+  const keyStore = new ApiKeyStore(context.secrets);
+  context.subscriptions.push(keyStore);
+  keyStore.migrateFromSettings(vscode.workspace.getConfiguration("gitDiffCommitGenerator")).catch(error => {
+      console.error("Failed to migrate API keys to secret storage:", error);
+  });
+
+  // Generated messages are kept per repository in globalState
+  const historyStore = new CommitHistoryStore(
+      context.globalState,
+      () => vscode.workspace.getConfiguration("gitDiffCommitGenerator").get<number>("historySize") || 50
+  );
+  context.subscriptions.push(watchForCommits(historyStore));
+
+  // Responses by a hash of the request, so generating twice for the same diff is free
+  const responseCache = new ResponseCache(context.globalState, () => {
+      const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+      return {
+          ttlMs: Math.max(0, config.get<number>("responseCache.ttlMinutes") ?? 1440) * 60 * 1000,
+          maxEntries: Math.max(0, config.get<number>("responseCache.maxEntries") ?? 100),
+      };
+  });
+
+  // Model lists from the providers' APIs, refreshed once a day
+  const modelCache = new ModelListCache(context.globalState);
+
+  // Token counts of every request, for the usage dashboard and the monthly budgets
+  let usagePanel: vscode.WebviewPanel | undefined;
+  const usageStore = new UsageStore(context.globalState, () => refreshUsagePanel());
+  let softBudgetWarnedMonth: number | undefined;
+
+  function getUsageSummary(): UsageSummary {
+      const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+      return summarizeUsage(usageStore.getRecords(), getPriceTable(config, modelCache));
+  }
+
+  function refreshUsagePanel() {
+      if (usagePanel) {
+          const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+          usagePanel.webview.html = renderUsageDashboard(getUsageSummary(), getUsageBudget(config));
+      }
+  }
+
+  // Records the requests of one generation, unless tracking is turned off
+  function trackUsage(repo: { path: string, name?: string }): ((usage: ModelUsage) => void) | undefined {
+      if (!vscode.workspace.getConfiguration("gitDiffCommitGenerator").get<boolean>("usage.enabled", true)) {
+          return undefined;
+      }
+      return usage => {
+          usageStore.add(usage, repo).catch(error => console.error("Failed to record token usage:", error));
+      };
+  }
+
+  // Checked before every generation. Past the soft budget a warning is shown once a month;
+  // past the hard budget nothing is sent until the next month or until the budget is raised.
+  function checkUsageBudget(): boolean {
+      const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+      const budget = getUsageBudget(config);
+      if (budget.softLimit === undefined && budget.hardLimit === undefined) {
+          return true;
+      }
+      const spent = getUsageSummary().month.cost;
+      const level = checkBudget(spent, budget);
+      const handleSelection = (selection: string | undefined) => {
+          if (selection === "Show Usage") {
+              vscode.commands.executeCommand("git-diff-commit-generator.showUsage");
+          } else if (selection === "Change Budget") {
+              vscode.commands.executeCommand("workbench.action.openSettings", "gitDiffCommitGenerator.usage");
+          }
+      };
+      if (level === "hard") {
+          console.log(`Generation blocked: ${formatCost(spent)} spent this month, hard budget ${formatCost(budget.hardLimit!)}`);
+          vscode.window.showErrorMessage(
+              `This month's estimated cost (${formatCost(spent)}) reached the hard budget of ${formatCost(budget.hardLimit!)}. Generation is blocked until next month.`,
+              "Show Usage", "Change Budget"
+          ).then(handleSelection);
+          return false;
+      }
+      const month = getMonthStart(Date.now());
+      if (level === "soft" && softBudgetWarnedMonth !== month) {
+          softBudgetWarnedMonth = month;
+          vscode.window.showWarningMessage(
+              `This month's estimated cost (${formatCost(spent)}) passed the soft budget of ${formatCost(budget.softLimit!)}.`,
+              "Show Usage", "Change Budget"
+          ).then(handleSelection);
+      }
+      return true;
+  }
+
+  // Shared by all generate commands. `source` selects which changes are described and
+  // `repoPath` skips the repository picker (e.g. for files selected in the SCM view).
+  // `onGenerated` takes over the message instead of the preview and the input box.
+  // `bypassCache` asks the provider again even if the same request was answered before.
+  async function generateFromSource(source: DiffSource, repoPath?: string, onGenerated?: (message: string) => Promise<void>, bypassCache = false) {
+      console.log(`Generating commit message from ${describeDiffSource(source)}`);
+
+      if (activeGeneration) {
+          vscode.window.showInformationMessage("A commit message is already being generated.");
+          return;
+      }
+      if (!checkUsageBudget()) {
+          return;
+      }
+      const abortController = new AbortController();
+      activeGeneration = abortController;
+      // Restored if streaming into the input box gets cancelled
+      let streamedInputBox: { box: { value: string }, originalValue: string } | undefined;
+
+      try {
+          const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+          const providerSettings = await getActiveProviderSettings(config, keyStore);
+          const alwaysUseGeneratedMessage = config.get<boolean>("alwaysUseGeneratedMessage") || false;
+
+          if (providerSettings.descriptor.requiresApiKey && !providerSettings.apiKey) {
+              vscode.window.showWarningMessage(`${providerSettings.descriptor.displayName} API key not set. Please set it first via the sidebar or the command palette.`);
+              return;
+          }
+
+          await vscode.window.withProgress(
+              {
+                  location: vscode.ProgressLocation.Notification,
+                  title: "Generating commit message",
+                  cancellable: true,
+              },
+              async (progress, token) => {
+                  token.onCancellationRequested(() => abortController.abort());
+
+                  const selectedRepo = await selectRepository(repoPath, () => progress.report({ message: "Finding git repositories..." }));
+                  if (!selectedRepo) {
+                      return;
+                  }
+
+                  progress.report({ message: `Getting ${describeDiffSource(source)}...` });
+                  console.log(`Getting diff of ${describeDiffSource(source)}...`);
+
+                  const diff = await getDiff(selectedRepo.path, source);
+                  if (diff === "") {
+                      console.log(`No ${describeDiffSource(source)} found.`);
+                      if (source.kind === "staged") {
+                          // Not awaited: the progress notification should close while the message is shown
+                          vscode.window.showInformationMessage("No staged changes found.", "Use Uncommitted Changes").then(selection => {
+                              if (selection === "Use Uncommitted Changes") {
+                                  vscode.commands.executeCommand("git-diff-commit-generator.generateFromWorkingTree");
+                              }
+                          });
+                      } else {
+                          vscode.window.showInformationMessage(`No ${describeDiffSource(source)} found.`);
+                      }
+                      return;
+                  }
+
+                  progress.report({ message: `Generating commit message with ${providerSettings.descriptor.displayName}...` });
+                  console.log("Getting prompt template...");
+                  // Resource-scoped settings can differ per workspace folder
+                  const repoConfig = vscode.workspace.getConfiguration("gitDiffCommitGenerator", vscode.Uri.file(selectedRepo.path));
+                  const resolvedPrompt = resolveGenerationPrompt(selectedRepo.path, config, repoConfig);
+
+                  const exclusions = applyExclusions(
+                      diff,
+                      await getNumstat(selectedRepo.path, source),
+                      getExclusionPatterns(selectedRepo.path, repoConfig)
+                  );
+                  if (exclusions.excludedFiles.length > 0) {
+                      console.log(`Summarized excluded files instead of sending their hunks: ${exclusions.excludedFiles.join(", ")}`);
+                  }
+
+                  const diffToSend = await redactDiffForUpload(exclusions.diff, repoConfig);
+                  if (diffToSend === undefined) {
+                      console.log("Generation aborted after redaction warning.");
+                      return;
+                  }
+
+                  console.log(`Calling ${providerSettings.descriptor.displayName} API (model: ${providerSettings.model})...`);
+                  const candidateCount = onGenerated ? 1 : Math.max(1, Math.min(5, repoConfig.get<number>("candidateCount") || 1));
+                  const session: GenerationSession = {
+                      repoPath: selectedRepo.path,
+                      repoName: selectedRepo.name,
+                      templateName: resolvedPrompt.templateName,
+                      conventional: resolvedPrompt.conventional,
+                      options: {
+                          providerSettings,
+                          prompt: resolvedPrompt.prompt,
+                          parameters: resolvedPrompt.parameters,
+                          diff: diffToSend,
+                          onUsage: trackUsage({ path: selectedRepo.path, name: selectedRepo.name }),
+                          maxPromptTokens: config.get<number>("maxPromptTokens") || 24000,
+                          onProgress: (message: string, increment?: number) => progress.report({ message, increment }),
+                      },
+                      temperatures: getCandidateTemperatures(candidateCount),
+                  };
+
+                  const repositoryContext = await getRepositoryContext(selectedRepo.path, repoConfig, source.kind === "commit" ? source.sha : undefined);
+                  const contextPrompt = repositoryContext ? buildRepositoryContextPrompt(repositoryContext) : "";
+                  if (contextPrompt) {
+                      console.log(`Adding repository context: ${repositoryContext?.recentSubjects.length} recent subjects, branch ${repositoryContext?.branch ?? "(detached)"}, ticket ${repositoryContext?.ticketId ?? "(none)"}`);
+                      session.options.prompt += `\n\n${contextPrompt}`;
+                  }
+                  session.ticket = await getTicketInsertion(selectedRepo.path, repoConfig, repositoryContext?.ticketId);
+
+                  // An oversized diff is summarized by the first candidate that is not cached
+                  currentSession = session;
+
+                  provider.startGeneration();
+                  provider.showCandidates(session);
+                  if (candidateCount > 1) {
+                      progress.report({ message: `Generating ${candidateCount} candidate messages...` });
+                      await Promise.allSettled(session.temperatures.map((_, index) =>
+                          generateCandidate(session, index, abortController.signal, { readCache: !bypassCache })));
+                      if (abortController.signal.aborted) {
+                          throw new Error("Cancelled");
+                      }
+                      return;
+                  }
+
+                  // Stream into the preview, and optionally into the SCM input box
+                  let streamedText = "";
+                  const scmRepo = repoConfig.get<boolean>("streamToInputBox") && !onGenerated ? getScmRepository(selectedRepo.path) : undefined;
+                  if (scmRepo) {
+                      streamedInputBox = { box: scmRepo.inputBox, originalValue: scmRepo.inputBox.value };
+                  }
+                  const commitMessage = await generateCandidate(session, 0, abortController.signal, {
+                      readCache: !bypassCache,
+                      onToken: (text: string) => {
+                          streamedText += text;
+                          if (streamedInputBox) {
+                              streamedInputBox.box.value = streamedText;
+                          }
+                      },
+                  });
+                  // The final message can differ from the streamed text (ticket key, Conventional Commit repairs)
+                  if (streamedInputBox && commitMessage) {
+                      streamedInputBox.box.value = commitMessage;
+                  }
+                  // The message is complete; a later cancel must not roll the input box back
+                  streamedInputBox = undefined;
+
+                  if (commitMessage) {
+                      console.log("Commit message generated:", commitMessage);
+                      
+                      // Add to history
+                      await historyStore.add({
+                          message: commitMessage,
+                          repoPath: selectedRepo.path,
+                          repoName: selectedRepo.name,
+                          provider: providerSettings.descriptor.id,
+                          model: providerSettings.model,
+                          templateName: resolvedPrompt.templateName,
+                      });
+                      
+                      provider.clearGeneratingStatus();
+                      
+                      // Otherwise the message waits in the editable preview for Apply/Refine
+                      if (onGenerated) {
+                          await onGenerated(commitMessage);
+                      } else if (alwaysUseGeneratedMessage) {
+                          await applyCommitMessage(selectedRepo.path, commitMessage);
+                      }
+                  } else {
+                      console.log("Generation resulted in empty message.");
+                      provider.clearGeneratingStatus();
+                      vscode.window.showWarningMessage("Failed to generate commit message (empty response).");
+                  }
+              }
+          );
+      } catch (error: any) {
+          if (abortController.signal.aborted) {
+              console.log("Commit message generation cancelled.");
+              if (streamedInputBox) {
+                  streamedInputBox.box.value = streamedInputBox.originalValue;
+              }
+              vscode.window.showInformationMessage("Commit message generation cancelled.");
+          } else {
+              console.error(`Error in generateCommitMessage command:`, error);
+              vscode.window.showErrorMessage(`Error generating commit message: ${error.message}`);
+          }
+      } finally {
+          activeGeneration = undefined;
+          provider.clearGeneratingStatus();
+      }
+  }
+
   // Register the main command
   let generateCommand = vscode.commands.registerCommand(
     "git-diff-commit-generator.generateCommitMessage",
     async (context) => {
         console.log("Command: generateCommitMessage triggered", context);
-        
+        await generateFromSource({ kind: "staged" });
+    }
+  );
+
+  let regenerateCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.regenerateCommitMessage",
+    async () => {
+        console.log("Command: regenerateCommitMessage triggered");
+        await generateFromSource({ kind: "staged" }, undefined, undefined, true);
+    }
+  );
+
+  let showUsageCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.showUsage",
+    () => {
+        console.log("Command: showUsage triggered");
+        if (usagePanel) {
+            usagePanel.reveal();
+        } else {
+            // Static HTML; it is re-rendered whenever a request is recorded
+            usagePanel = vscode.window.createWebviewPanel("gitDiffCommitGeneratorUsage", "Token Usage", vscode.ViewColumn.Active, { enableScripts: false });
+            usagePanel.onDidDispose(() => usagePanel = undefined, null, context.subscriptions);
+        }
+        refreshUsagePanel();
+    }
+  );
+
+  let clearUsageCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.clearUsage",
+    async () => {
+        console.log("Command: clearUsage triggered");
+        const confirmed = await vscode.window.showWarningMessage(
+            "Delete all recorded token usage? Costs spent this month no longer count towards the budgets.",
+            { modal: true },
+            "Delete"
+        );
+        if (confirmed === "Delete") {
+            await usageStore.clear();
+            vscode.window.showInformationMessage("Token usage data deleted.");
+        }
+    }
+  );
+
+  let clearResponseCacheCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.clearResponseCache",
+    async () => {
+        console.log("Command: clearResponseCache triggered");
+        const size = responseCache.size;
+        await responseCache.clear();
+        vscode.window.showInformationMessage(`Cleared ${size} cached ${size === 1 ? "response" : "responses"}.`);
+    }
+  );
+
+  // Quick pick over the models of the active provider. The list is fetched from the
+  // provider first when it is missing or older than a day.
+  let selectModelCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.selectModel",
+    async (refresh?: boolean) => {
+        console.log("Command: selectModel triggered");
+        const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+        const providerSettings = await getActiveProviderSettings(config, keyStore);
+        let models = getKnownModels(providerSettings, modelCache);
+        const cached = modelCache.get(getModelListCacheKey(providerSettings));
+        if (refresh || !cached || cached.stale) {
+            try {
+                models = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Window, title: `Listing ${providerSettings.descriptor.displayName} models...` },
+                    () => discoverModels(providerSettings, modelCache)
+                );
+            } catch (error: any) {
+                console.warn("Could not list models:", error);
+                if (refresh) {
+                    vscode.window.showErrorMessage(`Failed to list models: ${error.message}`);
+                }
+            }
+        }
+
+        type ModelItem = vscode.QuickPickItem & { model?: string, action?: "refresh" | "custom" };
+        const items: ModelItem[] = [
+            ...models.map(model => ({
+                label: model.label,
+                description: model.id === providerSettings.model ? `${model.id} (current)` : model.id,
+                detail: describeModel(model) || undefined,
+                model: model.id,
+            })),
+            { label: "", kind: vscode.QuickPickItemKind.Separator },
+            { label: "$(refresh) Refresh Model List", action: "refresh" },
+            { label: "$(edit) Enter Custom Model ID...", action: "custom" },
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select a ${providerSettings.descriptor.displayName} model`,
+            matchOnDescription: true,
+            matchOnDetail: true,
+        });
+        if (picked?.action === "refresh") {
+            await vscode.commands.executeCommand("git-diff-commit-generator.selectModel", true);
+        } else if (picked?.action === "custom") {
+            await enterCustomModel(config, providerSettings.model);
+        } else if (picked?.model) {
+            await config.update("selectedModel", picked.model, vscode.ConfigurationTarget.Global);
+        }
+    }
+  );
+
+  let generateFromWorkingTreeCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.generateFromWorkingTree",
+    async () => {
+        console.log("Command: generateFromWorkingTree triggered");
+        await generateFromSource({ kind: "workingTree" });
+    }
+  );
+
+  // Invoked from the context menu of files in the Source Control view. VS Code passes the
+  // clicked resource and then all selected resources.
+  let generateFromSelectedFilesCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.generateFromSelectedFiles",
+    async (clicked?: vscode.SourceControlResourceState, selected?: vscode.SourceControlResourceState[]) => {
+        console.log("Command: generateFromSelectedFiles triggered");
+        const uris = (selected && selected.length > 0 ? selected : clicked ? [clicked] : [])
+            .map(state => state.resourceUri)
+            .filter(uri => uri);
+        if (uris.length === 0) {
+            vscode.window.showInformationMessage("Select one or more changed files in the Source Control view first.");
+            return;
+        }
+        const repo = getScmRepositoryForFile(uris[0]);
+        const repoPath: string | undefined = repo?.rootUri.fsPath;
+        const files = repoPath ? uris.filter(uri => getScmRepositoryForFile(uri) === repo).map(uri => uri.fsPath) : [];
+        if (!repoPath || files.length === 0) {
+            vscode.window.showErrorMessage("The selected files do not belong to a Git repository.");
+            return;
+        }
+        if (files.length < uris.length) {
+            vscode.window.showWarningMessage("Only the selected files from the first repository are used.");
+        }
+        await generateFromSource({ kind: "files", paths: files }, repoPath);
+    }
+  );
+
+  // Regenerates the message of HEAD or another unpushed commit on the current branch
+  let rewordCommitCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.rewordCommit",
+    async () => {
+        console.log("Command: rewordCommit triggered");
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+
+        let commits: CommitInfo[];
+        try {
+            commits = await getRecentCommits(repo.path, 30);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read commits: ${error.message}`);
+            return;
+        }
+        if (commits.length === 0) {
+            vscode.window.showInformationMessage("This repository has no commits yet.");
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            commits.map((commit, index) => ({
+                label: commit.subject,
+                description: `${commit.shortSha}${index === 0 ? " (HEAD)" : ""}`,
+                detail: `${commit.author}, ${commit.relativeDate}`,
+                commit,
+            })),
+            { placeHolder: "Select the commit whose message should be rewritten", matchOnDescription: true }
+        );
+        if (!picked) {
+            return;
+        }
+        const commit = picked.commit;
+
+        if (commit.parents.length > 1) {
+            vscode.window.showErrorMessage("Merge commits cannot be reworded.");
+            return;
+        }
         try {
-            const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
-            const apiKey = config.get<string>("apiKey");
-            const alwaysUseGeneratedMessage = config.get<boolean>("alwaysUseGeneratedMessage") || false;
-            const selectedModel = config.get<string>("selectedModel") || "gemini-2.0-flash";
+            if (await isCommitPublished(repo.path, commit.sha)) {
+                vscode.window.showErrorMessage(
+                    `Commit ${commit.shortSha} is already on the upstream branch. Rewording it would require a force push, so it is left unchanged.`);
+                return;
+            }
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to check whether the commit was pushed: ${error.message}`);
+            return;
+        }
 
-            if (!apiKey) {
-                vscode.window.showWarningMessage("Gemini API key not set. Please set it first via the sidebar or the command palette.");
+        await generateFromSource({ kind: "commit", sha: commit.sha }, repo.path, async message => {
+            const selection = await vscode.window.showInformationMessage(
+                `Reword commit ${commit.shortSha} "${commit.subject}"?`,
+                { modal: true, detail: message },
+                "Reword Commit",
+                "Copy to Clipboard"
+            );
+            if (selection === "Copy to Clipboard") {
+                await vscode.env.clipboard.writeText(message);
+                vscode.window.showInformationMessage("Commit message copied to clipboard.");
+                return;
+            }
+            if (selection !== "Reword Commit") {
                 return;
             }
+            try {
+                await rewordCommit(repo.path, commit.sha, message);
+                vscode.window.showInformationMessage(`Reworded commit ${commit.shortSha}.`);
+            } catch (error: any) {
+                console.error("Failed to reword commit:", error);
+                vscode.window.showErrorMessage(`Failed to reword commit: ${error.message}`);
+            }
+        });
+    }
+  );
 
-            await vscode.window.withProgress(
+  // Writes a pull request title and description for the current branch, from its commits
+  // and its diff against the merge base with a target branch
+  let generatePullRequestCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.generatePullRequest",
+    async () => {
+        console.log("Command: generatePullRequest triggered");
+        if (activeGeneration) {
+            vscode.window.showInformationMessage("A commit message is already being generated.");
+            return;
+        }
+        if (!checkUsageBudget()) {
+            return;
+        }
+        const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+        const providerSettings = await getActiveProviderSettings(config, keyStore);
+        if (providerSettings.descriptor.requiresApiKey && !providerSettings.apiKey) {
+            vscode.window.showWarningMessage(`${providerSettings.descriptor.displayName} API key not set. Please set it first via the sidebar or the command palette.`);
+            return;
+        }
+
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+        let currentBranch: string | undefined;
+        let branches: string[];
+        try {
+            currentBranch = await getCurrentBranch(repo.path);
+            branches = await getBranches(repo.path);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read branches: ${error.message}`);
+            return;
+        }
+        if (!currentBranch) {
+            vscode.window.showErrorMessage("HEAD is detached. Check out the branch to describe first.");
+            return;
+        }
+        const branch = currentBranch;
+
+        const repoConfig = vscode.workspace.getConfiguration("gitDiffCommitGenerator", vscode.Uri.file(repo.path));
+        const target = await pickTargetBranch(branches, branch, repoConfig.get<string>("pullRequest.targetBranch"));
+        if (!target) {
+            return;
+        }
+        const template = await pickPullRequestTemplate(repoConfig);
+        if (!template) {
+            return;
+        }
+
+        const abortController = new AbortController();
+        activeGeneration = abortController;
+        try {
+            const content = await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Notification,
-                    title: "Generating commit message",
-                    cancellable: false,
+                    title: "Generating pull request description",
+                    cancellable: true,
                 },
-                async (progress) => {
-                    // Check if we have a repository from context (SCM view)
-                    let selectedRepo: { path: string, name: string, workspaceFolder: vscode.WorkspaceFolder } | undefined;
-                    
-                    // Get the git extension
-                    const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
-                    const api = gitExtension?.getAPI(1);
-                    
-                    // If called from SCM view, try to get the active repository
-                    if (api && api.repositories.length > 0) {
-                        const activeRepo = api.repositories.find((r: any) => r.ui.selected);
-                        
-                        if (activeRepo) {
-                            // We found the active repository from SCM
-                            const repoPath = activeRepo.rootUri.fsPath;
-                            const workspaceFolder = vscode.workspace.workspaceFolders?.find(
-                                folder => repoPath.startsWith(folder.uri.fsPath)
-                            );
-                            
-                            if (workspaceFolder) {
-                                selectedRepo = {
-                                    path: repoPath,
-                                    name: workspaceFolder.name + (repoPath === workspaceFolder.uri.fsPath ? '' : 
-                                        '/' + path.relative(workspaceFolder.uri.fsPath, repoPath)),
-                                    workspaceFolder: workspaceFolder
-                                };
-                            }
-                        }
+                async (progress, token) => {
+                    token.onCancellationRequested(() => abortController.abort());
+
+                    progress.report({ message: `Comparing ${branch} with ${target}...` });
+                    // Three dots: the changes since the merge base, not the difference between the tips
+                    const source: DiffSource = { kind: "range", range: `${target}...HEAD` };
+                    const diff = await getDiff(repo.path, source);
+                    if (!diff) {
+                        vscode.window.showInformationMessage(`No changes between ${target} and ${branch}.`);
+                        return undefined;
                     }
-                    
-                    // If we don't have a selected repo yet, get all repos and prompt user
-                    if (!selectedRepo) {
-                        progress.report({ message: "Finding git repositories..." });
-                        const repositories = await getGitRepositories();
-                        
-                        if (repositories.length === 0) {
-                            vscode.window.showErrorMessage("No git repositories found in workspace");
-                            return;
-                        }
-                        
-                        if (repositories.length > 1) {
-                            const repoItems = repositories.map(repo => ({
-                                label: repo.name,
-                                description: repo.path,
-                                repo: repo
-                            }));
-                            
-                            const selection = await vscode.window.showQuickPick(repoItems, {
-                                placeHolder: 'Select a git repository',
-                            });
-                            
-                            if (!selection) {
-                                return; // User cancelled
-                            }
-                            selectedRepo = selection.repo;
-                        } else {
-                            selectedRepo = repositories[0];
-                        }
+                    const commitLog = await getCommitLog(repo.path, `${target}..HEAD`);
+                    const exclusions = applyExclusions(diff, await getNumstat(repo.path, source), getExclusionPatterns(repo.path, repoConfig));
+                    const diffToSend = await redactDiffForUpload(exclusions.diff, repoConfig);
+                    if (diffToSend === undefined) {
+                        return undefined;
                     }
 
-                    if (!selectedRepo) {
-                        return;
+                    progress.report({ message: `Writing with ${providerSettings.descriptor.displayName}...` });
+                    const text = await generateCommitMessage({
+                        providerSettings,
+                        prompt: buildPullRequestPrompt(template.prompt, branch, target, commitLog),
+                        parameters: getGenerationParameters(config),
+                        diff: diffToSend,
+                        maxPromptTokens: config.get<number>("maxPromptTokens") || 24000,
+                        onProgress: (message: string, increment?: number) => progress.report({ message, increment }),
+                        signal: abortController.signal,
+                        onFallback: showFallbackNotice,
+                        onUsage: trackUsage(repo),
+                    });
+                    const description = parsePullRequest(text);
+                    return renderPullRequestDocument({ title: description.title || branch, body: description.body });
+                }
+            );
+            if (content) {
+                const document = await vscode.workspace.openTextDocument({ language: "markdown", content });
+                await vscode.window.showTextDocument(document, { preview: false });
+            }
+        } catch (error: any) {
+            if (abortController.signal.aborted) {
+                vscode.window.showInformationMessage("Pull request description generation cancelled.");
+            } else {
+                console.error("Error generating pull request description:", error);
+                vscode.window.showErrorMessage(`Error generating pull request description: ${error.message}`);
+            }
+        } finally {
+            activeGeneration = undefined;
+        }
+    }
+  );
+
+  // Writes or updates a Keep a Changelog section from the commits between two tags
+  let generateChangelogCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.generateChangelog",
+    async () => {
+        console.log("Command: generateChangelog triggered");
+        if (activeGeneration) {
+            vscode.window.showInformationMessage("A commit message is already being generated.");
+            return;
+        }
+        if (!checkUsageBudget()) {
+            return;
+        }
+        const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+        const providerSettings = await getActiveProviderSettings(config, keyStore);
+        if (providerSettings.descriptor.requiresApiKey && !providerSettings.apiKey) {
+            vscode.window.showWarningMessage(`${providerSettings.descriptor.displayName} API key not set. Please set it first via the sidebar or the command palette.`);
+            return;
+        }
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+
+        let tags: string[];
+        try {
+            tags = await getTags(repo.path);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read tags: ${error.message}`);
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(
+            [
+                { label: "HEAD", description: "Unreleased changes since the last tag", revision: "HEAD" },
+                ...tags.map(tag => ({ label: tag, description: "Changes since the previous tag", revision: tag })),
+            ],
+            { placeHolder: "Select the release to write the changelog for" }
+        );
+        if (!picked) {
+            return;
+        }
+        const isTag = picked.revision !== "HEAD";
+        const version = isTag
+            ? picked.revision.replace(/^v(?=\d)/, "")
+            : await vscode.window.showInputBox({
+                prompt: "Version for the changelog section",
+                value: UNRELEASED,
+                validateInput: value => value.trim() ? undefined : "Enter a version, or Unreleased.",
+            });
+        if (!version) {
+            return;
+        }
+        const previousTag = await getNearestTag(repo.path, picked.revision, isTag);
+        const revisions = previousTag ? `${previousTag}..${picked.revision}` : picked.revision;
+
+        const repoConfig = vscode.workspace.getConfiguration("gitDiffCommitGenerator", vscode.Uri.file(repo.path));
+        const changelogPath = path.join(repo.path, repoConfig.get<string>("changelog.file") || "CHANGELOG.md");
+        const abortController = new AbortController();
+        activeGeneration = abortController;
+        try {
+            const section = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Generating changelog",
+                    cancellable: true,
+                },
+                async (progress, token) => {
+                    token.onCancellationRequested(() => abortController.abort());
+
+                    progress.report({ message: `Reading commits ${previousTag ? `since ${previousTag}` : "of the whole history"}...` });
+                    let commitLog = await getCommitLog(repo.path, revisions);
+                    if (!commitLog) {
+                        vscode.window.showInformationMessage(`No commits found in ${revisions}.`);
+                        return undefined;
+                    }
+                    // Keep the prompt inside the budget; changelogs are written from subjects, so cutting long histories is acceptable
+                    const maxPromptTokens = config.get<number>("maxPromptTokens") || 24000;
+                    if (estimateTokens(commitLog) > maxPromptTokens) {
+                        commitLog = commitLog.substring(0, maxPromptTokens * 4) + "\n(the remaining commits were cut to fit the request)";
                     }
 
-                    progress.report({ message: "Getting staged changes..." });
-                    console.log("Getting staged diff...");
+                    progress.report({ message: `Grouping changes with ${providerSettings.descriptor.displayName}...` });
+                    const prompt = buildChangelogPrompt(repoConfig.get<string>("changelog.prompt") || getDefaultChangelogPrompt(), commitLog);
+                    const text = await generateCommitMessage({
+                        providerSettings,
+                        prompt,
+                        parameters: getGenerationParameters(config),
+                        diff: "",
+                        maxPromptTokens,
+                        onProgress: (message: string) => progress.report({ message }),
+                        signal: abortController.signal,
+                        onFallback: showFallbackNotice,
+                        onUsage: trackUsage(repo),
+                        // The commit log is the whole input; there is no diff to attach
+                        preparedPrompt: prompt,
+                    });
+                    const date = isTag ? (await getCommitDate(repo.path, picked.revision)) : new Date().toISOString().substring(0, 10);
+                    return renderChangelogSection(version.trim(), parseChangelogEntries(text), date);
+                }
+            );
+            if (section) {
+                await showChangelogUpdate(changelogPath, section, version.trim());
+            }
+        } catch (error: any) {
+            if (abortController.signal.aborted) {
+                vscode.window.showInformationMessage("Changelog generation cancelled.");
+            } else {
+                console.error("Error generating changelog:", error);
+                vscode.window.showErrorMessage(`Error generating changelog: ${error.message}`);
+            }
+        } finally {
+            activeGeneration = undefined;
+        }
+    }
+  );
+
+  // Asks the model to group the staged hunks into several logical commits. The plan is
+  // shown in the webview for editing and executed by executeCommitSplit.
+  let suggestCommitSplitCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.suggestCommitSplit",
+    async () => {
+        console.log("Command: suggestCommitSplit triggered");
+        if (activeGeneration) {
+            vscode.window.showInformationMessage("A commit message is already being generated.");
+            return;
+        }
+        if (!checkUsageBudget()) {
+            return;
+        }
+        const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+        const providerSettings = await getActiveProviderSettings(config, keyStore);
+        if (providerSettings.descriptor.requiresApiKey && !providerSettings.apiKey) {
+            vscode.window.showWarningMessage(`${providerSettings.descriptor.displayName} API key not set. Please set it first via the sidebar or the command palette.`);
+            return;
+        }
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+
+        let stagedPatch: string;
+        try {
+            stagedPatch = await getStagedPatch(repo.path);
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to read staged changes: ${error.message}`);
+            return;
+        }
+        const files = parseDiff(stagedPatch);
+        const units = getSplitUnits(files);
+        if (units.length < 2) {
+            vscode.window.showInformationMessage(units.length === 0
+                ? "No staged changes found."
+                : "The staged changes are a single hunk and cannot be split.");
+            return;
+        }
+
+        const repoConfig = vscode.workspace.getConfiguration("gitDiffCommitGenerator", vscode.Uri.file(repo.path));
+        // Asks for confirmation when something would be redacted; each unit is redacted on its own below
+        if (await redactDiffForUpload(stagedPatch, repoConfig) === undefined) {
+            return;
+        }
+        const redactionRules = repoConfig.get<boolean>("redaction.enabled", true) ? getRedactionRules(repoConfig) : undefined;
+        const exclusionPatterns = getExclusionPatterns(repo.path, repoConfig);
+        const prepareUnit = (filePath: string, unitDiff: string) => {
+            if (isExcludedFile(filePath, exclusionPatterns)) {
+                const [file] = parseDiff(unitDiff);
+                return `${file.header}\n(contents excluded: ${summarizeExcludedFile(file)})`;
+            }
+            return redactionRules ? redactDiff(unitDiff, redactionRules).diff : unitDiff;
+        };
+        const resolvedPrompt = resolveGenerationPrompt(repo.path, config, repoConfig);
+        const messageInstructions = resolvedPrompt.conventional
+            ? buildConventionalInstructions(resolvedPrompt.conventional.rules)
+            : resolvedPrompt.prompt;
+        const ticket = await getTicketInsertion(repo.path, repoConfig);
+
+        const abortController = new AbortController();
+        activeGeneration = abortController;
+        try {
+            const plan = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Suggesting commit split",
+                    cancellable: true,
+                },
+                async (progress, token) => {
+                    token.onCancellationRequested(() => abortController.abort());
+
+                    progress.report({ message: `Grouping ${units.length} changes with ${providerSettings.descriptor.displayName}...` });
+                    const maxPromptTokens = config.get<number>("maxPromptTokens") || 24000;
+                    const prompt = buildSplitPrompt(files, messageInstructions, maxPromptTokens, prepareUnit);
+                    const text = await generateCommitMessage({
+                        providerSettings,
+                        prompt,
+                        parameters: resolvedPrompt.parameters,
+                        diff: "",
+                        maxPromptTokens,
+                        onProgress: (message: string) => progress.report({ message }),
+                        signal: abortController.signal,
+                        onFallback: showFallbackNotice,
+                        onUsage: trackUsage(repo),
+                        // The changes are part of the prompt, numbered so the response can refer to them
+                        preparedPrompt: prompt,
+                    });
+                    return parseSplitPlan(text, units);
+                }
+            );
+            const commits = plan.map(commit => ({
+                ...commit,
+                message: ticket && commit.message ? insertTicketId(commit.message, ticket.id, ticket.settings) : commit.message,
+            }));
+            currentSplit = {
+                repoPath: repo.path,
+                repoName: repo.name,
+                stagedPatch,
+                files,
+                units,
+                provider: providerSettings.descriptor.id,
+                model: providerSettings.model,
+            };
+            provider.showSplitPlan(repo.name, units, commits);
+        } catch (error: any) {
+            if (abortController.signal.aborted) {
+                vscode.window.showInformationMessage("Commit split cancelled.");
+            } else {
+                console.error("Error suggesting commit split:", error);
+                vscode.window.showErrorMessage(`Error suggesting commit split: ${error.message}`);
+            }
+        } finally {
+            activeGeneration = undefined;
+        }
+    }
+  );
+
+  // Internal: used by the webview to commit the (edited) split plan. On failure the
+  // branch and the index are restored and the plan stays open.
+  let executeCommitSplitCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.executeCommitSplit",
+    async (commits: SplitCommit[]) => {
+        console.log(`Command: executeCommitSplit triggered with ${commits.length} commits`);
+        const split = currentSplit;
+        if (!split) {
+            vscode.window.showWarningMessage("Nothing to commit. Suggest a commit split first.");
+            return;
+        }
+        const planned = commits.filter(commit => commit.units.length > 0);
+        if (planned.some(commit => !commit.message.trim())) {
+            vscode.window.showWarningMessage("Every commit of the split needs a message.");
+            provider.showSplitPlan(split.repoName, split.units, commits);
+            return;
+        }
+        try {
+            if (await getStagedPatch(split.repoPath) !== split.stagedPatch) {
+                vscode.window.showWarningMessage("The staged changes have changed since the split was suggested. Suggest a new split.");
+                provider.showSplitPlan(split.repoName, split.units, commits);
+                return;
+            }
+            const summaries = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `Committing ${planned.length} commits...` },
+                () => commitInGroups(split.repoPath, planned.map(commit => ({
+                    message: commit.message,
+                    patch: buildSplitPatch(split.files, commit.units),
+                })))
+            );
+            console.log("Commit split done:", summaries);
+            currentSplit = undefined;
+            provider.clearSplitPlan();
+            for (const commit of planned) {
+                await historyStore.add({
+                    message: commit.message,
+                    repoPath: split.repoPath,
+                    repoName: split.repoName,
+                    provider: split.provider,
+                    model: split.model,
+                });
+                await historyStore.markCommitted(split.repoPath, commit.message);
+            }
+            const leftover = planned.reduce((count, commit) => count + commit.units.length, 0) < split.units.length;
+            vscode.window.showInformationMessage(`Created ${summaries.length} commits.${leftover ? " Changes left out of the plan are still staged." : ""}`);
+        } catch (error: any) {
+            console.error("Error committing split:", error);
+            vscode.window.showErrorMessage(`Commit split failed, the branch and the staged changes were restored: ${error.message}`);
+            provider.showSplitPlan(split.repoName, split.units, commits);
+        }
+    }
+  );
+
+  let generateFromRangeCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.generateFromRange",
+    async () => {
+        console.log("Command: generateFromRange triggered");
+        const range = await vscode.window.showInputBox({
+            prompt: "Commit range to describe, e.g. for a squash or pull request message. A single revision means everything since it.",
+            placeHolder: "HEAD~3..HEAD",
+            validateInput: value => !value.trim()
+                ? "Enter a commit range."
+                : value.trim().startsWith("-") ? "A range cannot start with '-'." : undefined,
+        });
+        if (!range) {
+            return;
+        }
+        await generateFromSource({ kind: "range", range: range.trim() });
+    }
+  );
+
+
+  // Internal: used by the webview to regenerate or refine a single candidate
+  let regenerateCandidateCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.regenerateCandidate",
+    async (index: number, refinement?: Refinement) => {
+        console.log(`Command: regenerateCandidate triggered for #${index}${refinement ? ` (refine: ${refinement.instruction})` : ""}`);
+        const session = currentSession;
+        if (!session || index < 0 || index >= session.temperatures.length) {
+            vscode.window.showWarningMessage("Nothing to regenerate. Generate a commit message first.");
+            return;
+        }
+        if (activeGeneration) {
+            vscode.window.showInformationMessage("A commit message is already being generated.");
+            return;
+        }
+        if (!checkUsageBudget()) {
+            return;
+        }
+        const abortController = new AbortController();
+        activeGeneration = abortController;
+        try {
+            provider.startGeneration();
+            // Regenerating asks for a new response; it replaces the cached one
+            await generateCandidate(session, index, abortController.signal, { refinement });
+        } catch (error: any) {
+            if (!abortController.signal.aborted) {
+                vscode.window.showErrorMessage(`Error generating commit message: ${error.message}`);
+            }
+        } finally {
+            activeGeneration = undefined;
+            provider.clearGeneratingStatus();
+        }
+    }
+  );
+
+  // Generates one candidate of the session and reports progress to the webview.
+  // A refinement rewrites the previous message instead of starting from scratch; it is
+  // never cached. `readCache` allows a cached response for the same request.
+  async function generateCandidate(
+      session: GenerationSession,
+      index: number,
+      signal: AbortSignal,
+      options: { refinement?: Refinement, onToken?: (text: string) => void, readCache?: boolean } = {}
+  ): Promise<string> {
+      const { refinement, onToken } = options;
+      provider.updateCandidate(index, { text: "", status: "generating" });
+      try {
+          const refined: GenerationSession = refinement
+              ? { ...session, options: { ...session.options, preparedPrompt: buildRefinementPrompt(await getPreparedPrompt(session, signal), refinement.message, refinement.instruction) } }
+              : session;
+          const result = await generateForSession(refined, session.temperatures[index], signal, text => {
+              provider.appendCandidateText(index, text);
+              onToken?.(text);
+          }, refinement ? undefined : { store: responseCache, read: options.readCache ?? false });
+          provider.updateCandidate(index, {
+              text: result.message,
+              status: "done",
+              warning: result.violations.length > 0
+                  ? `May not pass Conventional Commit checks: ${result.violations.join("; ")}`
+                  : result.fallback ?? (result.cached ? "Same request as before, so the previous response was reused. Regenerate for a new one." : undefined),
+          });
+          return result.message;
+      } catch (error: any) {
+          console.error(`Candidate #${index} failed:`, error);
+          // Keep the message that was being refined so the user does not lose it
+          provider.updateCandidate(index, { text: refinement?.message || "", status: "error", warning: signal.aborted ? "Cancelled" : error.message });
+          throw error;
+      }
+  }
 
-                    const stagedDiff = await getStagedDiff(selectedRepo.path);
-                    if (!stagedDiff && stagedDiff !== "") {
-                        return;
-                    }
-                    if (stagedDiff === "") {
-                        vscode.window.showInformationMessage("No staged changes found.");
-                        console.log("No staged changes found.");
-                        return;
-                    }
+  let cancelGenerationCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.cancelGeneration",
+    () => {
+        console.log("Command: cancelGeneration triggered");
+        activeGeneration?.abort();
+    }
+  );
 
-                    progress.report({ message: "Generating commit message with Gemini..." });
-                    console.log("Getting prompt template...");
-                    const promptTemplate = config.get<string>("prompt") || getDefaultPrompt();
+  // Register the API key setting command
+  // --- Commit Hook Commands ---
+  const cliPath = context.asAbsolutePath(path.join("out", "cli.js"));
 
-                    console.log("Calling Gemini API...");
-                    const commitMessage = await generateCommitMessage(apiKey, promptTemplate, stagedDiff, selectedModel);
+  let installCommitHookCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.installCommitHook",
+    async () => {
+        console.log("Command: installCommitHook triggered");
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+        try {
+            const hookPath = await installCommitHook(repo.path, cliPath);
+            const descriptor = getProviderDescriptor(vscode.workspace.getConfiguration("gitDiffCommitGenerator").get<string>("provider"));
+            const keyHint = descriptor.requiresApiKey
+                ? ` API keys are not copied out of VS Code; set ${getApiKeyEnvVars(descriptor.id).join(" or ")} in your terminal.`
+                : "";
+            vscode.window.showInformationMessage(`Commit message hook installed in ${repo.name} (${hookPath}).${keyHint}`);
+        } catch (error: any) {
+            console.error("Error installing commit hook:", error);
+            vscode.window.showErrorMessage(`Failed to install the commit message hook: ${error.message}`);
+        }
+    }
+  );
 
-                    if (commitMessage) {
-                        console.log("Commit message generated:", commitMessage);
-                        
-                        // Add to history
-                        if (!commitMessageHistory.includes(commitMessage)) {
-                            commitMessageHistory.unshift(commitMessage);
-                            if (commitMessageHistory.length > MAX_HISTORY_SIZE) {
-                                commitMessageHistory.pop();
-                            }
-                        }
-                        
-                        provider.clearGeneratingStatus();
-                        
-                        if (alwaysUseGeneratedMessage) {
-                            const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
-                            const api = gitExtension?.getAPI(1);
-                            if (api && api.repositories.length > 0) {
-                                // Find the correct repository
-                                const repo = api.repositories.find((r: { rootUri: { fsPath: string } }) => {
-                                    const path = r.rootUri.fsPath;
-                                    return path === selectedRepo?.path;
-                                });
-                                
-                                if (repo) {
-                                    repo.inputBox.value = commitMessage;
-                                    vscode.window.showInformationMessage("Commit message applied to Git input box.");
-                                } else {
-                                    await vscode.env.clipboard.writeText(commitMessage);
-                                    vscode.window.showWarningMessage("Commit message copied to clipboard (Git repository not found).");
-                                }
-                            } else {
-                                await vscode.env.clipboard.writeText(commitMessage);
-                                vscode.window.showWarningMessage("Commit message copied to clipboard (Git extension not available).");
-                            }
-                        } else {
-                            const selection = await vscode.window.showInformationMessage(
-                                "Generated commit message:",
-                                { modal: true, detail: commitMessage },
-                                "Use This Message",
-                                "Copy to Clipboard",
-                                "Cancel"
-                            );
-
-                            if (selection === "Use This Message") {
-                                const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
-                                const api = gitExtension?.getAPI(1);
-                                if (api && api.repositories.length > 0) {
-                                    // Find the correct repository
-                                    const repo = api.repositories.find((r: { rootUri: { fsPath: string } }) => {
-                                        const path = r.rootUri.fsPath;
-                                        return path === selectedRepo?.path;
-                                    });
-                                    
-                                    if (repo) {
-                                        repo.inputBox.value = commitMessage;
-                                        vscode.window.showInformationMessage("Commit message applied to Git input box.");
-                                    } else {
-                                        await vscode.env.clipboard.writeText(commitMessage);
-                                        vscode.window.showWarningMessage("Commit message copied to clipboard (Git repository not found).");
-                                    }
-                                } else {
-                                    await vscode.env.clipboard.writeText(commitMessage);
-                                    vscode.window.showWarningMessage("Commit message copied to clipboard (Git extension not available).");
-                                }
-                            } else if (selection === "Copy to Clipboard") {
-                                await vscode.env.clipboard.writeText(commitMessage);
-                                vscode.window.showInformationMessage("Commit message copied to clipboard.");
-                            }
-                        }
-                    } else {
-                        console.log("Generation resulted in empty message.");
-                        provider.clearGeneratingStatus();
-                        vscode.window.showWarningMessage("Failed to generate commit message (empty response).");
-                    }
-                }
-            );
+  let uninstallCommitHookCommand = vscode.commands.registerCommand(
+    "git-diff-commit-generator.uninstallCommitHook",
+    async () => {
+        console.log("Command: uninstallCommitHook triggered");
+        const repo = await selectRepository(getSelectedScmRepoPath());
+        if (!repo) {
+            return;
+        }
+        try {
+            await uninstallHook(repo.path);
+            vscode.window.showInformationMessage(`Commit message hook removed from ${repo.name}.`);
         } catch (error: any) {
-            console.error(`Error in generateCommitMessage command:`, error);
-            provider.clearGeneratingStatus();
-            vscode.window.showErrorMessage(`Error generating commit message: ${error.message}`);
+            console.error("Error removing commit hook:", error);
+            vscode.window.showErrorMessage(`Failed to remove the commit message hook: ${error.message}`);
         }
     }
   );
 
-  // Register the API key setting command
+  // Keep installed hooks in step with the settings and the extension location
+  // The Git extension may not be active yet, so wait for its API before subscribing
+  const gitExtension = vscode.extensions.getExtension("vscode.git");
+  if (gitExtension) {
+      Promise.resolve(gitExtension.isActive ? gitExtension.exports : gitExtension.activate()).then(exports => {
+          const gitApi = exports?.getAPI(1);
+          if (!gitApi) {
+              return;
+          }
+          gitApi.repositories.forEach((repo: any) => refreshCommitHook(repo.rootUri.fsPath, cliPath));
+          context.subscriptions.push(gitApi.onDidOpenRepository((repo: any) => refreshCommitHook(repo.rootUri.fsPath, cliPath)));
+          context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+              if (event.affectsConfiguration("gitDiffCommitGenerator")) {
+                  gitApi.repositories.forEach((repo: any) => refreshCommitHook(repo.rootUri.fsPath, cliPath));
+              }
+          }));
+      }, error => {
+          console.error("Failed to access the Git extension for commit hooks:", error);
+      });
+  }
+
   let setApiKeyCommand = vscode.commands.registerCommand(
     "git-diff-commit-generator.setApiKey",
     async () => {
         console.log("Command: setApiKey triggered");
         const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
-        const currentKey = config.get<string>("apiKey") || "";
-
-        const apiKey = await vscode.window.showInputBox({
-            title: "Set Gemini API Key",
-            prompt: "Enter your Gemini API key (leave empty to clear)",
-            password: true,
-            value: currentKey,
-            ignoreFocusOut: true, // Keep open if focus lost
-        });
+        const descriptor = getProviderDescriptor(config.get<string>("provider"));
 
-        // Check if the user cancelled (apiKey === undefined)
-        // Allow setting an empty string to clear the key
-        if (apiKey !== undefined) {
-            await config.update("apiKey", apiKey, vscode.ConfigurationTarget.Global);
-            if (apiKey) {
-                vscode.window.showInformationMessage("Gemini API key saved.");
-                console.log("API key saved.");
+        if (!descriptor.requiresApiKey) {
+            vscode.window.showInformationMessage(`${descriptor.displayName} does not need an API key.`);
+            return;
+        }
+
+        try {
+            const keys = await keyStore.listKeys(descriptor.id);
+            let action: { action: "add" | "select" | "remove", id?: string } | undefined = { action: "add" };
+
+            // With keys already stored, let the user switch between them or manage the list
+            if (keys.length > 0) {
+                const items: Array<vscode.QuickPickItem & { action: "add" | "select" | "remove", id?: string }> = [
+                    ...keys.map(k => ({
+                        label: `$(key) ${k.label}`,
+                        description: k.active ? "active" : undefined,
+                        action: "select" as const,
+                        id: k.id
+                    })),
+                    { label: "$(add) Add new key...", action: "add" },
+                    { label: "$(trash) Remove a key...", action: "remove" }
+                ];
+                action = await vscode.window.showQuickPick(items, {
+                    title: `${descriptor.displayName} API Keys`,
+                    placeHolder: "Select the key to use, or add/remove keys",
+                });
+            }
+
+            if (!action) {
+                console.log("API key setting cancelled.");
+                return;
+            }
+
+            if (action.action === "select" && action.id) {
+                await keyStore.setActiveKey(descriptor.id, action.id);
+                vscode.window.showInformationMessage(`${descriptor.displayName} API key switched.`);
+            } else if (action.action === "remove") {
+                const toRemove = await vscode.window.showQuickPick(
+                    keys.map(k => ({ label: k.label, description: k.active ? "active" : undefined, id: k.id })),
+                    { placeHolder: "Select the API key to remove" }
+                );
+                if (toRemove) {
+                    await keyStore.removeKey(descriptor.id, toRemove.id);
+                    vscode.window.showInformationMessage(`${descriptor.displayName} API key "${toRemove.label}" removed.`);
+                    console.log("API key removed.");
+                }
             } else {
-                vscode.window.showInformationMessage("Gemini API key cleared.");
-                 console.log("API key cleared.");
+                const apiKey = await vscode.window.showInputBox({
+                    title: `Set ${descriptor.displayName} API Key`,
+                    prompt: `Enter your ${descriptor.displayName} API key`,
+                    password: true,
+                    ignoreFocusOut: true, // Keep open if focus lost
+                });
+                if (!apiKey) {
+                    console.log("API key setting cancelled.");
+                    return;
+                }
+
+                let label: string | undefined = "Default";
+                if (keys.length > 0) {
+                    label = await vscode.window.showInputBox({
+                        prompt: "Enter a name for this key",
+                        placeHolder: "e.g., Work, Personal",
+                        value: `Key ${keys.length + 1}`,
+                        ignoreFocusOut: true,
+                    });
+                    if (!label) {
+                        return; // User cancelled
+                    }
+                }
+
+                await keyStore.addKey(descriptor.id, label, apiKey);
+                vscode.window.showInformationMessage(`${descriptor.displayName} API key saved.`);
+                console.log("API key saved.");
             }
             // No need to explicitly update the webview here,
-            // the onDidChangeConfiguration listener in the provider will handle it.
-        } else {
-            console.log("API key setting cancelled.");
+            // the key store change listener in the provider will handle it.
+        } catch (error: any) {
+            console.error("Error updating API keys:", error);
+            vscode.window.showErrorMessage(`Failed to update API key: ${error.message}`);
         }
     }
   );
@@ -252,53 +1656,33 @@ export function activate(context: vscode.ExtensionContext) {
   let showHistoryCommand = vscode.commands.registerCommand(
     "git-diff-commit-generator.showCommitHistory",
     async () => {
-        if (commitMessageHistory.length === 0) {
+        if (historyStore.getEntries().length === 0) {
             vscode.window.showInformationMessage("No commit message history available.");
             return;
         }
 
-        const items = commitMessageHistory.map((message, index) => {
-            // Create a shortened preview of the message
-            const preview = message.length > 50 ? 
-                message.substring(0, 47) + "..." : 
-                message;
-            
-            return {
-                label: `${index + 1}. ${preview}`,
-                description: new Date().toLocaleString(), // Could store timestamps with messages for better info
-                message: message
-            };
-        });
+        const selection = await pickHistoryEntry(historyStore);
+        if (!selection) {
+            return;
+        }
 
-        const selection = await vscode.window.showQuickPick(items, {
-            placeHolder: 'Select a previous commit message',
-        });
+        // Apply to the repository the message was generated for
+        const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
+        const api = gitExtension?.getAPI(1);
+        const repo = api?.repositories.find((r: { rootUri: { fsPath: string } }) => r.rootUri.fsPath === selection.repoPath);
 
-        if (selection) {
-            // Get the git extension
-            const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
-            const api = gitExtension?.getAPI(1);
-            
-            if (api && api.repositories.length > 0) {
-                const activeRepo = api.repositories.find((r: any) => r.ui.selected);
-                
-                if (activeRepo) {
-                    activeRepo.inputBox.value = selection.message;
-                    vscode.window.showInformationMessage("Previous commit message applied.");
-                } else {
-                    await vscode.env.clipboard.writeText(selection.message);
-                    vscode.window.showInformationMessage("Previous commit message copied to clipboard.");
-                }
-            } else {
-                await vscode.env.clipboard.writeText(selection.message);
-                vscode.window.showInformationMessage("Previous commit message copied to clipboard.");
-            }
+        if (repo) {
+            repo.inputBox.value = selection.message;
+            vscode.window.showInformationMessage(`Previous commit message applied to ${selection.repoName || selection.repoPath}.`);
+        } else {
+            await vscode.env.clipboard.writeText(selection.message);
+            vscode.window.showInformationMessage("Previous commit message copied to clipboard (repository not open).");
         }
     }
   );
 
   // Create and register the sidebar provider
-  const provider = new CommitMessageViewProvider(context.extensionUri, context);
+  const provider = new CommitMessageViewProvider(context.extensionUri, context, keyStore, historyStore, modelCache);
   console.log("Registering WebviewViewProvider for gitDiffCommitGeneratorView...");
 
   // *** This is the crucial registration step ***
@@ -316,6 +1700,29 @@ export function activate(context: vscode.ExtensionContext) {
 
   console.log("Pushing commands to subscriptions...");
   context.subscriptions.push(generateCommand);
+  context.subscriptions.push(cancelGenerationCommand);
+  context.subscriptions.push(regenerateCommand);
+  context.subscriptions.push(clearResponseCacheCommand);
+  context.subscriptions.push(showUsageCommand);
+  context.subscriptions.push(clearUsageCommand);
+  // Prices and budgets are shown in the dashboard
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("gitDiffCommitGenerator.usage")) {
+          refreshUsagePanel();
+      }
+  }));
+  context.subscriptions.push(selectModelCommand);
+  context.subscriptions.push(generateFromWorkingTreeCommand);
+  context.subscriptions.push(generateFromSelectedFilesCommand);
+  context.subscriptions.push(generateFromRangeCommand);
+  context.subscriptions.push(rewordCommitCommand);
+  context.subscriptions.push(generatePullRequestCommand);
+  context.subscriptions.push(generateChangelogCommand);
+  context.subscriptions.push(suggestCommitSplitCommand);
+  context.subscriptions.push(executeCommitSplitCommand);
+  context.subscriptions.push(installCommitHookCommand);
+  context.subscriptions.push(uninstallCommitHookCommand);
+  context.subscriptions.push(regenerateCandidateCommand);
   context.subscriptions.push(setApiKeyCommand);
   context.subscriptions.push(showHistoryCommand);
   console.log("Commands pushed.");
@@ -323,7 +1730,337 @@ export function activate(context: vscode.ExtensionContext) {
   console.log("ACTIVATE END");
 } // activate function ends
 
-async function getGitRepositories(): Promise<Array<{ path: string, name: string, workspaceFolder: vscode.WorkspaceFolder }>> {
+// --- Usage Dashboard ---
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderUsageTable(title: string, keyLabel: string, groups: UsageGroup[]): string {
+    if (groups.length === 0) {
+        return "";
+    }
+    const maxCost = Math.max(...groups.map(g => g.totals.cost));
+    const rows = groups.map(({ key, totals }) => `
+        <tr>
+            <td>${escapeHtml(key)}</td>
+            <td class="number">${totals.requests}</td>
+            <td class="number">${totals.promptTokens.toLocaleString()}</td>
+            <td class="number">${totals.outputTokens.toLocaleString()}</td>
+            <td class="number">${renderCost(totals)}</td>
+            <td class="bar-cell"><div class="bar" style="width: ${maxCost > 0 ? Math.round(totals.cost / maxCost * 100) : 0}%"></div></td>
+        </tr>`).join("");
+    return `
+        <h2>${title}</h2>
+        <table>
+            <tr><th>${keyLabel}</th><th class="number">Requests</th><th class="number">Prompt tokens</th><th class="number">Output tokens</th><th class="number">Cost</th><th></th></tr>
+            ${rows}
+        </table>`;
+}
+
+// Costs of models without a known price are left out, which the "+" marks
+function renderCost(totals: UsageTotals): string {
+    const cost = formatCost(totals.cost);
+    return totals.unpriced > 0 ? `<span title="${totals.unpriced} requests to models without a known price">${cost}+</span>` : cost;
+}
+
+function renderBudget(label: string, spent: number, limit: number | undefined): string {
+    if (limit === undefined) {
+        return "";
+    }
+    const percent = limit > 0 ? Math.min(100, Math.round(spent / limit * 100)) : 100;
+    return `<p>${label}: ${formatCost(spent)} of ${formatCost(limit)} (${percent}%)</p>
+        <div class="budget"><div class="bar${spent >= limit ? " over" : ""}" style="width: ${percent}%"></div></div>`;
+}
+
+function renderUsageDashboard(summary: UsageSummary, budget: UsageBudget): string {
+    const { total, month } = summary;
+    const estimatedNote = total.estimated > 0
+        ? `<p class="note">${total.estimated} of ${total.requests} requests have estimated token counts; their provider did not report them.</p>`
+        : "";
+    const content = total.requests === 0
+        ? `<p>No requests recorded yet. Token counts are recorded for every request once a commit message is generated.</p>`
+        : `
+        <div class="totals">
+            <div><span class="value">${renderCost(month)}</span><span class="label">This month</span></div>
+            <div><span class="value">${month.requests}</span><span class="label">Requests this month</span></div>
+            <div><span class="value">${(month.promptTokens + month.outputTokens).toLocaleString()}</span><span class="label">Tokens this month</span></div>
+            <div><span class="value">${renderCost(total)}</span><span class="label">All time</span></div>
+        </div>
+        ${renderBudget("Soft budget", month.cost, budget.softLimit)}
+        ${renderBudget("Hard budget", month.cost, budget.hardLimit)}
+        ${renderUsageTable("Last 30 days", "Day", summary.byDay)}
+        ${renderUsageTable("By model", "Model", summary.byModel)}
+        ${renderUsageTable("By repository", "Repository", summary.byRepo)}
+        ${estimatedNote}`;
+
+    return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+            <title>Token Usage</title>
+            <style>
+                body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+                h2 { font-size: 1.1em; margin-top: 24px; }
+                table { border-collapse: collapse; width: 100%; font-size: 0.9em; }
+                th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+                .number { text-align: right; white-space: nowrap; }
+                .bar-cell { width: 25%; }
+                .bar { height: 8px; background-color: var(--vscode-charts-blue, var(--vscode-button-background)); border-radius: 2px; }
+                .bar.over { background-color: var(--vscode-errorForeground); }
+                .budget { background-color: var(--vscode-input-background); border-radius: 2px; max-width: 400px; }
+                .totals { display: flex; flex-wrap: wrap; gap: 24px; margin: 16px 0; }
+                .totals div { display: flex; flex-direction: column; }
+                .totals .value { font-size: 1.6em; }
+                .totals .label, .note { color: var(--vscode-descriptionForeground); font-size: 0.85em; }
+            </style>
+        </head>
+        <body>
+            <h1>Token Usage</h1>
+            <p class="note">Costs are estimates from the price table (gitDiffCommitGenerator.usage.prices), in US dollars.</p>
+            ${content}
+        </body>
+        </html>`;
+}
+
+// Quick pick over the history. Typing filters on the message, repository, model and
+// template; the toolbar buttons limit the list to the current repository or clear it.
+function pickHistoryEntry(historyStore: CommitHistoryStore): Promise<HistoryEntry | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { entry: HistoryEntry }>();
+        const currentRepoPath = getSelectedScmRepoPath();
+        const filterButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("filter"), tooltip: "Toggle current repository only" };
+        const clearButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon("trash"), tooltip: "Clear history" };
+        let currentRepoOnly = false;
+        let picked: HistoryEntry | undefined;
+
+        const refresh = () => {
+            const entries = historyStore.getEntries(currentRepoOnly ? currentRepoPath : undefined);
+            quickPick.items = entries.map(entry => {
+                const firstLine = entry.message.split("\n")[0];
+                const preview = firstLine.length > 60 ? firstLine.substring(0, 57) + "..." : firstLine;
+                const details = [
+                    entry.model ? `${entry.provider ? entry.provider + "/" : ""}${entry.model}` : undefined,
+                    entry.templateName ? `template: ${entry.templateName}` : undefined,
+                    entry.committed ? "committed" : undefined,
+                ].filter(Boolean);
+                return {
+                    label: `${entry.committed ? "$(check) " : ""}${preview}`,
+                    description: `${new Date(entry.timestamp).toLocaleString()} · ${entry.repoName || entry.repoPath}`,
+                    detail: details.join(" · ") || undefined,
+                    entry
+                };
+            });
+            quickPick.placeholder = currentRepoOnly
+                ? `Search messages generated for ${currentRepoPath}`
+                : "Search previous commit messages";
+        };
+
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        quickPick.buttons = currentRepoPath ? [filterButton, clearButton] : [clearButton];
+        quickPick.onDidTriggerButton(async button => {
+            if (button === filterButton) {
+                currentRepoOnly = !currentRepoOnly;
+                refresh();
+            } else if (button === clearButton) {
+                const confirm = await vscode.window.showWarningMessage("Clear all commit message history?", { modal: true }, "Clear");
+                if (confirm === "Clear") {
+                    await historyStore.clear();
+                    quickPick.hide();
+                }
+            }
+        });
+        quickPick.onDidAccept(() => {
+            picked = quickPick.selectedItems[0]?.entry;
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(picked);
+        });
+
+        refresh();
+        quickPick.show();
+    });
+}
+
+// Branch names commonly used as merge targets, tried in this order
+const COMMON_TARGET_BRANCHES = ["origin/main", "main", "origin/master", "master", "origin/develop", "develop"];
+
+async function pickTargetBranch(branches: string[], currentBranch: string, configuredTarget?: string): Promise<string | undefined> {
+    const preferred = [configuredTarget, ...COMMON_TARGET_BRANCHES].filter((name): name is string => !!name && branches.includes(name));
+    const ordered = [...new Set([...preferred, ...branches])].filter(name => name !== currentBranch);
+    if (ordered.length === 0) {
+        vscode.window.showErrorMessage("There is no other branch to compare with.");
+        return undefined;
+    }
+    return vscode.window.showQuickPick(ordered, {
+        placeHolder: `Select the branch that ${currentBranch} will be merged into`,
+    });
+}
+
+async function pickPullRequestTemplate(config: vscode.WorkspaceConfiguration): Promise<PullRequestTemplate | undefined> {
+    const custom = (config.get<PullRequestTemplate[]>("pullRequest.templates") || [])
+        .filter(template => template && template.name && template.prompt);
+    const templates = [DEFAULT_PULL_REQUEST_TEMPLATE, ...custom];
+    const defaultName = config.get<string>("pullRequest.defaultTemplate");
+    const configured = defaultName ? templates.find(template => template.name === defaultName) : undefined;
+    if (configured || templates.length === 1) {
+        return configured || templates[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        templates.map(template => ({ label: template.name, detail: template.prompt.split("\n")[0], template })),
+        { placeHolder: "Select a pull request template" }
+    );
+    return picked?.template;
+}
+
+// --- Commit Hook ---
+// Snapshot of the settings that apply to a repository, for the prepare-commit-msg hook
+function getHeadlessSettings(repoPath: string): HeadlessSettings {
+    const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+    const repoConfig = vscode.workspace.getConfiguration("gitDiffCommitGenerator", vscode.Uri.file(repoPath));
+    const descriptor = getProviderDescriptor(config.get<string>("provider"));
+    const resolvedPrompt = resolveGenerationPrompt(repoPath, config, repoConfig);
+    return {
+        provider: descriptor.id,
+        model: resolveModel(descriptor, config.get<string>("selectedModel")),
+        baseUrl: config.get<string>(`${descriptor.id}BaseUrl`) || undefined,
+        fallbackModels: config.get<string[]>("fallbackModels") || [],
+        retry: getRetrySettings(config),
+        prompt: resolvedPrompt.prompt,
+        parameters: resolvedPrompt.parameters,
+        maxPromptTokens: config.get<number>("maxPromptTokens") || 24000,
+        ignoredFiles: getConfiguredExclusionPatterns(repoConfig),
+        redaction: repoConfig.get<boolean>("redaction.enabled", true) ? getRedactionRules(repoConfig) : undefined,
+        conventional: resolvedPrompt.conventional,
+        recentCommitCount: repoConfig.get<boolean>("repositoryContext.enabled") ? getRecentCommitCount(repoConfig) : undefined,
+        ticket: { ...getTicketSettings(repoConfig), branchPatterns: repoConfig.get<string[]>("ticket.branchPatterns") || [] },
+        templates: Object.fromEntries(Object.values(config.get<SavedTemplates>("savedTemplates") || {}).map(t => [t.name, t.prompt])),
+    };
+}
+
+function installCommitHook(repoPath: string, cliPath: string): Promise<string> {
+    return installHook(repoPath, buildHookScript(cliPath, process.execPath), getHeadlessSettings(repoPath));
+}
+
+// Rewrites an installed hook with the current settings and the paths of the current
+// extension version (both change with updates). Repositories without the hook are skipped.
+async function refreshCommitHook(repoPath: string, cliPath: string) {
+    try {
+        if (await isHookInstalled(repoPath)) {
+            await installCommitHook(repoPath, cliPath);
+            console.log(`Refreshed the commit message hook in ${repoPath}`);
+        }
+    } catch (error) {
+        console.error(`Failed to refresh the commit message hook in ${repoPath}:`, error);
+    }
+}
+
+// Applies the new section to the changelog as an unsaved edit, so it can be reviewed
+// (and undone) before saving. Creates the file when it does not exist yet.
+async function showChangelogUpdate(changelogPath: string, section: string, version: string) {
+    const uri = vscode.Uri.file(changelogPath);
+    const exists = fs.existsSync(changelogPath);
+    const document = exists ? await vscode.workspace.openTextDocument(uri) : undefined;
+    const updated = updateChangelog(document?.getText(), section, version);
+
+    const edit = new vscode.WorkspaceEdit();
+    if (document) {
+        edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length)), updated);
+    } else {
+        edit.createFile(uri, { ignoreIfExists: true });
+        edit.insert(uri, new vscode.Position(0, 0), updated);
+    }
+    if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error(`Could not update ${path.basename(changelogPath)}.`);
+    }
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(uri), { preview: false });
+    vscode.window.showInformationMessage(`Changelog section [${version}] added to ${path.basename(changelogPath)}. Review it and save the file.`);
+}
+
+interface GitRepository {
+    path: string;
+    name: string;
+    workspaceFolder: vscode.WorkspaceFolder;
+}
+
+// The repository to work on: `repoPath` when the caller knows it, else the one selected
+// in the SCM view, else a pick from all repositories in the workspace.
+async function selectRepository(repoPath?: string, onSearch?: () => void): Promise<GitRepository | undefined> {
+    // Check if we have a repository from context (SCM view)
+    let selectedRepo: GitRepository | undefined;
+    
+    // Get the git extension
+    const gitExtension = vscode.extensions.getExtension("vscode.git")?.exports;
+    const api = gitExtension?.getAPI(1);
+    
+    const repoFolder = repoPath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(repoPath)) : undefined;
+    if (repoPath && repoFolder) {
+        // The caller already knows the repository (e.g. files selected in the SCM view)
+        selectedRepo = {
+            path: repoPath,
+            name: repoFolder.name + (repoPath === repoFolder.uri.fsPath ? '' :
+                '/' + path.relative(repoFolder.uri.fsPath, repoPath)),
+            workspaceFolder: repoFolder
+        };
+    } else if (api && api.repositories.length > 0) {
+        // If called from SCM view, try to get the active repository
+        const activeRepo = api.repositories.find((r: any) => r.ui.selected);
+        
+        if (activeRepo) {
+            // We found the active repository from SCM
+            const repoPath = activeRepo.rootUri.fsPath;
+            const workspaceFolder = vscode.workspace.workspaceFolders?.find(
+                folder => repoPath.startsWith(folder.uri.fsPath)
+            );
+            
+            if (workspaceFolder) {
+                selectedRepo = {
+                    path: repoPath,
+                    name: workspaceFolder.name + (repoPath === workspaceFolder.uri.fsPath ? '' : 
+                        '/' + path.relative(workspaceFolder.uri.fsPath, repoPath)),
+                    workspaceFolder: workspaceFolder
+                };
+            }
+        }
+    }
+    
+    // If we don't have a selected repo yet, get all repos and prompt user
+    if (!selectedRepo) {
+        onSearch?.();
+        const repositories = await getGitRepositories();
+        
+        if (repositories.length === 0) {
+            vscode.window.showErrorMessage("No git repositories found in workspace");
+            return undefined;
+        }
+        
+        if (repositories.length > 1) {
+            const repoItems = repositories.map(repo => ({
+                label: repo.name,
+                description: repo.path,
+                repo: repo
+            }));
+            
+            const selection = await vscode.window.showQuickPick(repoItems, {
+                placeHolder: 'Select a git repository',
+            });
+            
+            if (!selection) {
+                return undefined; // User cancelled
+            }
+            selectedRepo = selection.repo;
+        } else {
+            selectedRepo = repositories[0];
+        }
+    }
+
+    return selectedRepo;
+}
+
+async function getGitRepositories(): Promise<GitRepository[]> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) {
         return [];
@@ -386,99 +2123,6 @@ async function getGitRepositories(): Promise<Array<{ path: string, name: string,
     return repositories;
 }
 
-async function getStagedDiff(workspacePath: string, subPath?: string): Promise<string> {
-    console.log(`Executing 'git diff --cached' in ${workspacePath}${subPath ? '/' + subPath : ''}`);
-    const execPath = subPath ? `${workspacePath}/${subPath}` : workspacePath;
-    
-    return new Promise((resolve, reject) => {
-        cp.exec("git diff --cached", { cwd: execPath, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
-            if (error) {
-                console.error(`Git diff error: ${error.message}`);
-                console.error(`Git diff stderr: ${stderr}`);
-                if (stderr.includes("not a git repository")) {
-                   reject(new Error("Not a git repository or no HEAD commit yet."));
-                } else {
-                   reject(new Error(`Failed to get git diff: ${stderr || error.message}`));
-                }
-                return;
-            }
-            const diff = stdout.trim();
-            console.log(`Git diff output length: ${diff.length}`);
-            if (!diff) {
-                console.log("No staged changes detected by git diff.");
-                resolve(""); // Resolve with empty string for no changes
-            } else {
-                resolve(diff);
-            }
-        });
-    });
-}
-
-// --- generateCommitMessage Function ---
-async function generateCommitMessage(apiKey: string, prompt: string, diff: string, selectedModel: string): Promise<string> {
-    console.log("Initializing Gemini AI client...");
-    try {
-        const genAI = new GoogleGenerativeAI(apiKey);
-        const model = genAI.getGenerativeModel({ model: selectedModel });
-
-        const fullPrompt = `${prompt}\n\nHere are the diffs:\n\`\`\`diff\n${diff}\n\`\`\``;
-        console.log(`Sending prompt to Gemini (Prompt length: ${prompt.length}, Diff length: ${diff.length})`);
-
-        // *** FIX: Use imported enums ***
-        const safetySettings = [
-            {
-                category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-                threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-            },
-            {
-                category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-                threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-            },
-            {
-                category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-                threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-            },
-            {
-                category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-                threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-            },
-        ];
-
-        const request = {
-          contents: [{ role: "user", parts: [{ text: fullPrompt }] }],
-          safetySettings: safetySettings,
-          // generationConfig: { maxOutputTokens: 800, temperature: 0.7 }
-        };
-
-        const result = await model.generateContent(request); // Pass the request object
-
-        const response = await result.response;
-
-        // Check for blocked content (check remains the same)
-         if (!response.candidates || response.candidates.length === 0 || !response.candidates[0].content) {
-            const blockReason = response.promptFeedback?.blockReason;
-            const safetyRatings = response.promptFeedback?.safetyRatings;
-            console.warn(`Gemini response potentially blocked. Reason: ${blockReason || 'N/A'}`);
-            console.warn('Safety Ratings:', safetyRatings);
-            throw new Error(`Generation failed. The response may have been blocked due to safety settings (Reason: ${blockReason || 'No candidate content'}).`);
-        }
-
-
-        const text = response.text();
-        console.log("Received text from Gemini:", text);
-        return text;
-    } catch (error: any) {
-        console.error(`Gemini API error: ${error.message}`, error);
-        let userMessage = `Gemini API error: ${error.message}`;
-        if (error.message && error.message.includes('API key not valid')) {
-            userMessage = "Gemini API key is not valid. Please check and set it again.";
-        } else if (error.message && error.message.includes('quota')) {
-             userMessage = "Gemini API quota exceeded. Please check your usage limits.";
-        }
-        throw new Error(userMessage);
-    }
-}
-
 // --- CommitMessageViewProvider Class ---
 class CommitMessageViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = "gitDiffCommitGeneratorView"; // Consistent view type
@@ -486,12 +2130,26 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private readonly _extensionUri: vscode.Uri;
     private readonly _context: vscode.ExtensionContext;
+    private readonly _keyStore: ApiKeyStore;
+    private readonly _historyStore: CommitHistoryStore;
+    private readonly _modelCache: ModelListCache;
+    // Model lists requested automatically, at most once per provider and key per session
+    private readonly _modelDiscoveries = new Set<string>();
     private _configChangeListener: vscode.Disposable | undefined;
-
-    constructor(extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
+    private _keyChangeListener: vscode.Disposable | undefined;
+    private _historyChangeListener: vscode.Disposable | undefined;
+    // Last generated candidates, replayed when the webview (re)loads
+    private _candidates: { repoName: string, temperatures: Array<number | undefined>, cards: CandidateCard[] } | undefined;
+    // Last suggested commit split, with the user's edits once they commit it
+    private _splitPlan: { repoName: string, units: SplitUnit[], commits: SplitCommit[] } | undefined;
+
+    constructor(extensionUri: vscode.Uri, context: vscode.ExtensionContext, keyStore: ApiKeyStore, historyStore: CommitHistoryStore, modelCache: ModelListCache) {
         console.log("CommitMessageViewProvider instance created.");
         this._extensionUri = extensionUri;
         this._context = context;
+        this._keyStore = keyStore;
+        this._historyStore = historyStore;
+        this._modelCache = modelCache;
     }
 
     // This method is called by VS Code when the view needs to be shown
@@ -528,6 +2186,50 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                     case 'generateCommitMessage':
                         vscode.commands.executeCommand('git-diff-commit-generator.generateCommitMessage');
                         break;
+                    case 'cancelGeneration':
+                        vscode.commands.executeCommand('git-diff-commit-generator.cancelGeneration');
+                        break;
+                    case 'regenerateCandidate':
+                        if (typeof data.value === 'number') {
+                            vscode.commands.executeCommand('git-diff-commit-generator.regenerateCandidate', data.value);
+                        }
+                        break;
+                    case 'refineCandidate':
+                        if (typeof data.value === 'number' && typeof data.instruction === 'string' && data.instruction.trim()) {
+                            const refinement: Refinement = { message: data.message || "", instruction: data.instruction.trim() };
+                            vscode.commands.executeCommand('git-diff-commit-generator.regenerateCandidate', data.value, refinement);
+                        }
+                        break;
+                    case 'copyCandidate':
+                        if (typeof data.value === 'string' && data.value.trim()) {
+                            await vscode.env.clipboard.writeText(data.value);
+                            vscode.window.showInformationMessage("Commit message copied to clipboard.");
+                        }
+                        break;
+                    case 'applyCandidate':
+                        if (typeof data.value === 'string' && data.value.trim() && currentSession) {
+                            const session = currentSession;
+                            await applyCommitMessage(session.repoPath, data.value);
+                            await this._historyStore.add({
+                                message: data.value,
+                                repoPath: session.repoPath,
+                                repoName: session.repoName,
+                                provider: session.options.providerSettings.descriptor.id,
+                                model: session.options.providerSettings.model,
+                                templateName: session.templateName,
+                            });
+                        }
+                        break;
+                    case 'executeSplit':
+                        if (Array.isArray(data.value) && this._splitPlan) {
+                            this._splitPlan.commits = data.value;
+                            vscode.commands.executeCommand('git-diff-commit-generator.executeCommitSplit', data.value);
+                        }
+                        break;
+                    case 'cancelSplit':
+                        currentSplit = undefined;
+                        this.clearSplitPlan();
+                        break;
                     case 'setPrompt':
                         if (typeof data.value === 'string') {
                             console.log("Saving prompt template...");
@@ -557,6 +2259,65 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             }
                         }
                         break;
+                    case 'enterCustomModel': {
+                        const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+                        const providerSettings = await getActiveProviderSettings(config, this._keyStore);
+                        try {
+                            await enterCustomModel(config, providerSettings.model);
+                        } catch (error: any) {
+                            console.error("Error saving custom model:", error);
+                            vscode.window.showErrorMessage(`Failed to save model selection: ${error.message}`);
+                        }
+                        // Puts the selection back when the input was cancelled
+                        this._updateWebviewSettings();
+                        break;
+                    }
+                    case 'refreshModels':
+                        this._refreshModels();
+                        break;
+                    case 'setProvider':
+                        if (typeof data.value === 'string') {
+                            console.log("Saving provider selection...");
+                            const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+                            try {
+                                const descriptor = getProviderDescriptor(data.value);
+                                await config.update('provider', descriptor.id, vscode.ConfigurationTarget.Global);
+                                // Keep the current model only if it is valid for the new provider
+                                const model = resolveModel(descriptor, config.get<string>('selectedModel'));
+                                await config.update('selectedModel', model, vscode.ConfigurationTarget.Global);
+                                console.log("Provider selection saved successfully.");
+                            } catch (error: any) {
+                                console.error("Error saving provider selection:", error);
+                                vscode.window.showErrorMessage(`Failed to save provider selection: ${error.message}`);
+                            }
+                        }
+                        break;
+                    case 'setCommitStyle':
+                        if (data.value === 'template' || data.value === 'conventional') {
+                            console.log("Saving commit style...");
+                            const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+                            try {
+                                await config.update('commitStyle', data.value, vscode.ConfigurationTarget.Global);
+                                console.log("Commit style saved successfully.");
+                            } catch (error: any) {
+                                console.error("Error saving commit style:", error);
+                                vscode.window.showErrorMessage(`Failed to save commit style: ${error.message}`);
+                            }
+                        }
+                        break;
+                    case 'setGenerationParameter':
+                        if (typeof data.key === 'string' && GENERATION_SETTING_KEYS.includes(data.key)) {
+                            console.log(`Saving generation parameter ${data.key}...`);
+                            const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+                            try {
+                                // null (an emptied field) goes back to the provider default
+                                await config.update(`generation.${data.key}`, data.value ?? undefined, vscode.ConfigurationTarget.Global);
+                            } catch (error: any) {
+                                console.error("Error saving generation parameter:", error);
+                                vscode.window.showErrorMessage(`Failed to save setting: ${error.message}`);
+                            }
+                        }
+                        break;
                     case 'setAlwaysUseGenerated':
                         if (typeof data.value === 'boolean') {
                             console.log("Saving always use generated setting...");
@@ -583,16 +2344,36 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             this._deleteTemplate(data.value);
                         }
                         break;
+                    case 'assignTemplateToRepo':
+                        if (typeof data.value === 'string') {
+                            this._toggleTemplateForRepo(data.value);
+                        }
+                        break;
+                    case 'setDefaultTemplate':
+                        if (typeof data.value === 'string') {
+                            this._toggleDefaultTemplate(data.value);
+                        }
+                        break;
+                    case 'toggleTemplateParameters':
+                        if (typeof data.value === 'string') {
+                            this._toggleTemplateParameters(data.value);
+                        }
+                        break;
                     case 'getInitialSettings':
                         console.log("Webview requested initial settings. Posting current settings...");
                         this._updateWebviewSettings();
+                        this._postCandidates();
+                        this._postSplitPlan();
                         break;
                     case 'showCommitHistory':
                         vscode.commands.executeCommand('git-diff-commit-generator.showCommitHistory');
                         break;
+                    case 'showUsage':
+                        vscode.commands.executeCommand('git-diff-commit-generator.showUsage');
+                        break;
                     case 'copyLastCommitMessage':
-                        if (commitMessageHistory.length > 0) {
-                            await vscode.env.clipboard.writeText(commitMessageHistory[0]);
+                        if (this._historyStore.getEntries().length > 0) {
+                            await vscode.env.clipboard.writeText(this._historyStore.getEntries()[0].message);
                             vscode.window.showInformationMessage("Last commit message copied to clipboard.");
                         } else {
                             vscode.window.showInformationMessage("No commit message history available.");
@@ -614,6 +2395,13 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                     this._updateWebviewSettings();
                 }
             });
+            this._keyChangeListener?.dispose();
+            this._keyChangeListener = this._keyStore.onDidChange(() => {
+                console.log("-> API keys changed, posting updated settings to webview...");
+                this._updateWebviewSettings();
+            });
+            this._historyChangeListener?.dispose();
+            this._historyChangeListener = this._historyStore.onDidChange(() => this._updateWebviewSettings());
             // Add listener disposable to context ONLY ONCE during activation? No, tie to webview lifecycle.
             // this._context.subscriptions.push(this._configChangeListener); // NO - leads to multiple listeners if view recreated
 
@@ -622,9 +2410,20 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                 console.log("!!! resolveWebviewView DISPOSING -> Disposing config listener !!!");
                 this._configChangeListener?.dispose();
                 this._configChangeListener = undefined; // Clear reference
+                this._keyChangeListener?.dispose();
+                this._keyChangeListener = undefined;
+                this._historyChangeListener?.dispose();
+                this._historyChangeListener = undefined;
                 this._view = undefined; // Clear view reference
             }, null, this._context.subscriptions); // Add disposable tracking to context
 
+            // The selected SCM repository may have changed while the view was hidden
+            webviewView.onDidChangeVisibility(() => {
+                if (webviewView.visible) {
+                    this._updateWebviewSettings();
+                }
+            }, null, this._context.subscriptions);
+
             // --- Initial Settings Update ---
             console.log("Performing initial settings update for webview...");
             this._updateWebviewSettings(); // Send initial state
@@ -648,29 +2447,78 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
         }
         console.log("Fetching current config to send to webview...");
         const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
-        const apiKey = config.get<string>("apiKey");
+        const providerSettings = await getActiveProviderSettings(config, this._keyStore);
         const prompt = config.get<string>("prompt") || getDefaultPrompt();
-        const selectedModel = config.get<string>("selectedModel") || "gemini-2.0-flash";
         const alwaysUseGenerated = config.get<boolean>("alwaysUseGeneratedMessage") || false;
-        const savedTemplates = config.get<{ [key: string]: any }>("savedTemplates") || {};
+        const commitStyle = config.get<string>("commitStyle") || "template";
+        const savedTemplates = config.get<SavedTemplates>("savedTemplates") || {};
         const defaultTemplateId = config.get<string>("defaultTemplateId") || "";
-
-        console.log(`--> Posting 'updateSettings': hasApiKey=${!!apiKey}`);
+        const currentRepoPath = getSelectedScmRepoPath();
+        const projectTemplateId = currentRepoPath ? findProjectTemplate(currentRepoPath, savedTemplates) : undefined;
+        // The active provider offers the models its API listed, with their details
+        const models = getKnownModels(providerSettings, this._modelCache).map(model => ({ ...model, detail: describeModel(model) }));
+        const providers = PROVIDERS.map(p => p.id === providerSettings.descriptor.id ? { ...p, models } : p);
+        this._discoverModelsOnce(providerSettings);
+
+        console.log(`--> Posting 'updateSettings': provider=${providerSettings.descriptor.id}, hasApiKey=${!!providerSettings.apiKey}`);
         this._view.webview.postMessage({
             command: "updateSettings",
-            hasApiKey: !!apiKey,
+            hasApiKey: !!providerSettings.apiKey,
+            apiKeyLabel: providerSettings.apiKeyLabel,
+            requiresApiKey: providerSettings.descriptor.requiresApiKey,
+            provider: providerSettings.descriptor.id,
+            providers: providers,
             prompt: prompt,
-            selectedModel: selectedModel,
+            selectedModel: providerSettings.model,
             alwaysUseGenerated: alwaysUseGenerated,
+            commitStyle: commitStyle,
+            generation: getGenerationParameters(config),
             templates: savedTemplates,
             selectedTemplateId: defaultTemplateId,
-            hasHistory: commitMessageHistory.length > 0
+            defaultTemplateId: defaultTemplateId,
+            currentRepoPath: currentRepoPath || "",
+            projectTemplateId: projectTemplateId || "",
+            hasHistory: this._historyStore.getEntries().length > 0
         }).then(
             (success) => { if (!success) console.warn("--> postMessage 'updateSettings' returned false."); },
             (error) => { console.error("--> postMessage 'updateSettings' FAILED:", error); }
         );
     }
 
+    // Lists the models of the active provider in the background when the cached list is
+    // missing or stale. Failures (no key, server down) only keep the current list.
+    private _discoverModelsOnce(providerSettings: ActiveProviderSettings) {
+        const key = getModelListCacheKey(providerSettings);
+        const cached = this._modelCache.get(key);
+        if ((cached && !cached.stale) || this._modelDiscoveries.has(key)) {
+            return;
+        }
+        if (providerSettings.descriptor.requiresApiKey && !providerSettings.apiKey) {
+            return;
+        }
+        this._modelDiscoveries.add(key);
+        discoverModels(providerSettings, this._modelCache).then(
+            () => this._updateWebviewSettings(),
+            error => console.warn(`Could not list ${providerSettings.descriptor.displayName} models:`, error.message)
+        );
+    }
+
+    private async _refreshModels() {
+        const config = vscode.workspace.getConfiguration("gitDiffCommitGenerator");
+        const providerSettings = await getActiveProviderSettings(config, this._keyStore);
+        try {
+            const models = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Window, title: `Listing ${providerSettings.descriptor.displayName} models...` },
+                () => discoverModels(providerSettings, this._modelCache)
+            );
+            this._updateWebviewSettings();
+            vscode.window.showInformationMessage(`Found ${models.length} ${providerSettings.descriptor.displayName} ${models.length === 1 ? "model" : "models"}.`);
+        } catch (error: any) {
+            console.error("Error listing models:", error);
+            vscode.window.showErrorMessage(`Failed to list models: ${error.message}`);
+        }
+    }
+
     // Generates the HTML content for the webview
     private _getHtmlForWebview(webview: vscode.Webview): string {
         console.log("Generating HTML content for webview...");
@@ -908,7 +2756,7 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                 .template-actions button {
                     padding: 2px 6px;
                     font-size: 0.8em;
-                    min-width: 40px;
+                    min-width: 28px;
                 }
                 .button-row {
                     display: flex;
@@ -922,6 +2770,114 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                     color: var(--vscode-descriptionForeground);
                     margin-top: 4px;
                 }
+                .hidden {
+                    display: none !important;
+                }
+                .candidate {
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: var(--border-radius);
+                    padding: 6px;
+                    margin-top: 6px;
+                }
+                .candidate-header {
+                    display: flex;
+                    justify-content: space-between;
+                    font-size: 0.8em;
+                    color: var(--vscode-descriptionForeground);
+                    margin-bottom: 4px;
+                }
+                .candidate textarea {
+                    min-height: 80px;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: var(--vscode-editor-font-size);
+                }
+                .candidate .refine-row {
+                    margin-top: 6px;
+                }
+                .candidate .refine-row input {
+                    flex: 1;
+                    min-width: 0;
+                    padding: 4px 6px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: var(--border-radius);
+                }
+                .candidate .refine-row input:focus {
+                    outline: 1px solid var(--vscode-focusBorder);
+                    border-color: var(--vscode-focusBorder);
+                }
+                .candidate .refine-row button {
+                    flex: 0 0 auto;
+                }
+                .candidate .warning {
+                    font-size: 0.8em;
+                    color: var(--vscode-editorWarning-foreground);
+                    margin-bottom: 4px;
+                }
+                .candidate-header button {
+                    width: auto;
+                    padding: 0 4px;
+                    font-size: 1em;
+                }
+                .split-unit {
+                    display: flex;
+                    align-items: center;
+                    gap: 4px;
+                    font-size: 0.8em;
+                    margin-top: 4px;
+                }
+                .split-unit span {
+                    flex: 1;
+                    min-width: 0;
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                    font-family: var(--vscode-editor-font-family);
+                }
+                .split-unit select {
+                    width: auto;
+                    flex: 0 0 auto;
+                    margin: 0;
+                    padding: 2px;
+                }
+
+                /* Generation parameters */
+                .generation-parameters summary {
+                    cursor: pointer;
+                    font-size: 0.85em;
+                    margin-bottom: 4px;
+                }
+                .parameter-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 6px;
+                    font-size: 0.85em;
+                    margin-bottom: 4px;
+                }
+                .parameter-row label {
+                    flex: 1;
+                    min-width: 0;
+                }
+                .parameter-row input,
+                .parameter-row select {
+                    width: 55%;
+                    flex: 0 0 auto;
+                    padding: 4px 6px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: var(--border-radius);
+                }
+                .generation-parameters > label {
+                    display: block;
+                    font-size: 0.85em;
+                    margin-bottom: 2px;
+                }
+                .generation-parameters textarea {
+                    min-height: 40px;
+                    margin-bottom: 4px;
+                }
                 #generateStatus {
                     font-size: 0.8em;
                     text-align: center;
@@ -952,16 +2908,41 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                         <span class="section-icon">▼</span>
                     </div>
                     <div class="section-content">
-                        <select id="modelSelect" title="Select which Gemini model to use">
-                            <option value="gemini-2.0-flash">Gemini 2.0 Flash</option>
-                            <option value="gemini-2.0-flash-lite">Gemini 2.0 Flash Lite</option>
-                            <option value="gemini-2.5-flash-preview-05-20">Gemini 2.5 Flash Preview</option>
-                            <option value="gemini-2.5-pro-preview-05-06">Gemini 2.5 Pro</option>
+                        <select id="providerSelect" title="Select which AI provider to use">
+                            <!-- Providers will be populated here -->
+                        </select>
+                        <select id="modelSelect" title="Select which model to use">
+                            <!-- Models will be populated here -->
+                        </select>
+                        <button id="refreshModelsBtn" title="Ask the provider which models are available"><span class="emoji-icon">🔄</span> Refresh Models</button>
+                        <select id="commitStyleSelect" title="Select the commit message format">
+                            <option value="template">Style: Prompt template</option>
+                            <option value="conventional">Style: Conventional Commits</option>
                         </select>
                         <div class="checkbox-container">
                             <input type="checkbox" id="alwaysUseGenerated" />
                             <label for="alwaysUseGenerated">Always use generated message</label>
                         </div>
+                        <details class="generation-parameters" id="generationParameters">
+                            <summary>Generation parameters</summary>
+                            <div class="parameter-row">
+                                <label for="temperatureInput">Temperature</label>
+                                <input type="number" id="temperatureInput" min="0" max="2" step="0.1" placeholder="Default" />
+                            </div>
+                            <div class="parameter-row">
+                                <label for="topPInput">Top-p</label>
+                                <input type="number" id="topPInput" min="0" max="1" step="0.05" placeholder="Default" />
+                            </div>
+                            <div class="parameter-row">
+                                <label for="maxOutputTokensInput">Max output tokens</label>
+                                <input type="number" id="maxOutputTokensInput" min="1" step="1" placeholder="Default" />
+                            </div>
+                            <label for="stopSequencesInput">Stop sequences (one per line)</label>
+                            <textarea id="stopSequencesInput"></textarea>
+                            <label for="systemInstructionInput">System instruction</label>
+                            <textarea id="systemInstructionInput" placeholder="e.g. Write in German."></textarea>
+                            <div id="safetyParameters"></div>
+                        </details>
                     </div>
                 </div>
 
@@ -971,9 +2952,13 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                     </div>
                     <div class="section-content">
                         <button id="generateBtn" disabled><span class="emoji-icon">✨</span> Generate Commit Message</button>
+                        <button id="cancelBtn" class="hidden"><span class="emoji-icon">⏹️</span> Cancel</button>
+                        <div id="candidates" class="hidden"></div>
+                        <div id="splitPlan" class="hidden"></div>
                         <div class="button-row" style="margin-top: 6px;">
                             <button id="historyBtn"><span class="emoji-icon">🕒</span> History</button>
                             <button id="copyBtn"><span class="emoji-icon">📋</span> Copy Last</button>
+                            <button id="usageBtn"><span class="emoji-icon">📊</span> Usage</button>
                         </div>
                         <div id="generateStatus"></div>
                     </div>
@@ -1008,16 +2993,29 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                         const apiKeyStatusText = document.getElementById('apiKeyStatusText');
                         const setApiKeyBtn = document.getElementById('setApiKeyBtn');
                         const generateBtn = document.getElementById('generateBtn');
+                        const cancelBtn = document.getElementById('cancelBtn');
+                        const candidatesDiv = document.getElementById('candidates');
+                        const splitPlanDiv = document.getElementById('splitPlan');
                         const promptTemplate = document.getElementById('promptTemplate');
                         const savePromptBtn = document.getElementById('savePromptBtn');
                         const generateStatus = document.getElementById('generateStatus');
+                        const providerSelect = document.getElementById('providerSelect');
                         const modelSelect = document.getElementById('modelSelect');
+                        const refreshModelsBtn = document.getElementById('refreshModelsBtn');
                         const alwaysUseGenerated = document.getElementById('alwaysUseGenerated');
+                        const commitStyleSelect = document.getElementById('commitStyleSelect');
+                        const temperatureInput = document.getElementById('temperatureInput');
+                        const topPInput = document.getElementById('topPInput');
+                        const maxOutputTokensInput = document.getElementById('maxOutputTokensInput');
+                        const stopSequencesInput = document.getElementById('stopSequencesInput');
+                        const systemInstructionInput = document.getElementById('systemInstructionInput');
+                        const safetyParameters = document.getElementById('safetyParameters');
                         const templateList = document.getElementById('templateList');
                         const newTemplateBtn = document.getElementById('newTemplateBtn');
                         const editTemplateBtn = document.getElementById('editTemplateBtn');
                         const historyBtn = document.getElementById('historyBtn');
                         const copyBtn = document.getElementById('copyBtn');
+                        const usageBtn = document.getElementById('usageBtn');
                         
                         // Section headers for collapsible sections
                         const apiKeyHeader = document.getElementById('apiKeyHeader');
@@ -1026,13 +3024,27 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
 
                         // --- State ---
                         let currentApiKeySet = false;
+                        let currentRequiresApiKey = true;
+                        let currentApiKeyLabel = '';
+                        let currentProviders = [];
+                        let currentModelId = '';
                         let currentTemplates = {};
                         let selectedTemplateId = null;
+                        let defaultTemplateId = '';
+                        let projectTemplateId = '';
+                        let currentRepoPath = '';
+                        let candidateCards = [];
+                        let splitPlan = null;
+                        let currentGeneration = {};
                         const previousState = vscode.getState() || { 
                             hasApiKey: false, 
+                            requiresApiKey: true,
                             prompt: '',
+                            provider: 'gemini',
+                            providers: [],
                             selectedModel: 'gemini-2.0-flash',
                             alwaysUseGenerated: false,
+                            commitStyle: 'template',
                             templates: {},
                             selectedTemplateId: null,
                             collapsedSections: {
@@ -1044,25 +3056,345 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                         console.log('Initial webview state:', previousState);
 
                         // --- Functions ---
-                        function updateApiKeyStatus(hasApiKey) {
+                        function updateApiKeyStatus(hasApiKey, requiresApiKey, apiKeyLabel) {
                             currentApiKeySet = hasApiKey;
-                            if (hasApiKey) {
+                            currentApiKeyLabel = apiKeyLabel || '';
+                            currentRequiresApiKey = requiresApiKey !== false;
+                            if (!currentRequiresApiKey) {
+                                apiKeyStatusIcon.className = 'api-status-icon set';
+                                apiKeyStatusText.textContent = 'No API Key needed for this provider';
+                                generateBtn.disabled = false;
+                                generateBtn.title = 'Generate commit message from staged changes';
+                            } else if (hasApiKey) {
                                 apiKeyStatusIcon.className = 'api-status-icon set';
-                                apiKeyStatusText.textContent = 'API Key is set';
+                                apiKeyStatusText.textContent = currentApiKeyLabel ? 'API Key is set (' + currentApiKeyLabel + ')' : 'API Key is set';
                                 generateBtn.disabled = false;
                                 generateBtn.title = 'Generate commit message from staged changes';
                             } else {
                                 apiKeyStatusIcon.className = 'api-status-icon not-set';
                                 apiKeyStatusText.textContent = 'API Key not set';
                                 generateBtn.disabled = true;
-                                generateBtn.title = 'Set your Gemini API Key first';
+                                generateBtn.title = 'Set your API Key first';
                             }
                         }
 
+                        function updateProviderOptions(providers, providerId, modelId) {
+                            currentProviders = providers || [];
+                            providerSelect.innerHTML = '';
+                            currentProviders.forEach(p => {
+                                const option = document.createElement('option');
+                                option.value = p.id;
+                                option.textContent = p.displayName;
+                                providerSelect.appendChild(option);
+                            });
+                            providerSelect.value = providerId;
+
+                            const provider = currentProviders.find(p => p.id === providerId);
+                            const models = provider ? provider.models.slice() : [];
+                            // Keep custom model IDs set in settings.json selectable
+                            if (modelId && !models.some(m => m.id === modelId)) {
+                                models.push({ id: modelId, label: modelId });
+                            }
+                            modelSelect.innerHTML = '';
+                            models.forEach(m => {
+                                const option = document.createElement('option');
+                                option.value = m.id;
+                                option.textContent = m.label + (m.detail ? ' · ' + m.detail : '');
+                                option.title = m.id;
+                                modelSelect.appendChild(option);
+                            });
+                            const customOption = document.createElement('option');
+                            customOption.value = '__custom__';
+                            customOption.textContent = 'Custom model ID...';
+                            modelSelect.appendChild(customOption);
+                            modelSelect.value = modelId;
+                            currentModelId = modelId;
+                        }
+
                         function updatePrompt(promptValue) {
                             promptTemplate.value = promptValue || '';
                         }
 
+                        function showCandidates(repoName, temperatures) {
+                            candidatesDiv.innerHTML = '';
+                            candidatesDiv.classList.remove('hidden');
+                            candidateCards = temperatures.map((temperature, index) => {
+                                const card = document.createElement('div');
+                                card.className = 'candidate';
+
+                                const header = document.createElement('div');
+                                header.className = 'candidate-header';
+                                const title = document.createElement('span');
+                                title.textContent = (temperatures.length > 1 ? 'Candidate ' + (index + 1) : 'Generated message') + (repoName ? ' · ' + repoName : '');
+                                const status = document.createElement('span');
+                                if (temperature !== null && temperature !== undefined) {
+                                    status.title = 'Temperature ' + temperature;
+                                }
+                                header.appendChild(title);
+                                header.appendChild(status);
+                                card.appendChild(header);
+
+                                const warning = document.createElement('div');
+                                warning.className = 'warning hidden';
+                                card.appendChild(warning);
+
+                                const textarea = document.createElement('textarea');
+                                textarea.placeholder = 'Edit the message, or merge parts of the other candidates into it...';
+                                card.appendChild(textarea);
+
+                                const buttons = document.createElement('div');
+                                buttons.className = 'button-row';
+                                const useBtn = document.createElement('button');
+                                useBtn.innerHTML = '<span class="emoji-icon">✓</span> Use';
+                                useBtn.title = 'Put this message into the Git input box';
+                                useBtn.onclick = () => vscode.postMessage({ command: 'applyCandidate', value: textarea.value });
+                                const regenerateBtn = document.createElement('button');
+                                regenerateBtn.innerHTML = '<span class="emoji-icon">🔄</span>';
+                                regenerateBtn.title = 'Regenerate this candidate';
+                                regenerateBtn.onclick = () => vscode.postMessage({ command: 'regenerateCandidate', value: index });
+                                const copyCandidateBtn = document.createElement('button');
+                                copyCandidateBtn.innerHTML = '<span class="emoji-icon">📋</span>';
+                                copyCandidateBtn.title = 'Copy this message to the clipboard';
+                                copyCandidateBtn.onclick = () => vscode.postMessage({ command: 'copyCandidate', value: textarea.value });
+                                buttons.appendChild(useBtn);
+                                buttons.appendChild(regenerateBtn);
+                                buttons.appendChild(copyCandidateBtn);
+                                card.appendChild(buttons);
+
+                                const refineRow = document.createElement('div');
+                                refineRow.className = 'button-row refine-row';
+                                const refineInput = document.createElement('input');
+                                refineInput.type = 'text';
+                                refineInput.placeholder = 'Refine: e.g. shorter, mention the migration';
+                                const refineBtn = document.createElement('button');
+                                refineBtn.innerHTML = '<span class="emoji-icon">🪄</span>';
+                                refineBtn.title = 'Rewrite this message following the instruction';
+                                const refine = () => {
+                                    if (!refineInput.value.trim() || refineBtn.disabled) {
+                                        return;
+                                    }
+                                    vscode.postMessage({ command: 'refineCandidate', value: index, message: textarea.value, instruction: refineInput.value });
+                                    refineInput.value = '';
+                                };
+                                refineBtn.onclick = refine;
+                                refineInput.addEventListener('keydown', (e) => {
+                                    if (e.key === 'Enter') {
+                                        refine();
+                                    }
+                                });
+                                refineRow.appendChild(refineInput);
+                                refineRow.appendChild(refineBtn);
+                                card.appendChild(refineRow);
+
+                                candidatesDiv.appendChild(card);
+                                return { status, warning, textarea, buttons: [useBtn, regenerateBtn, copyCandidateBtn, refineBtn] };
+                            });
+                        }
+
+                        function updateCandidate(index, text, status, warningText) {
+                            const card = candidateCards[index];
+                            if (!card) {
+                                return;
+                            }
+                            card.textarea.value = text;
+                            card.status.textContent = status === 'generating' ? 'Generating...' : status === 'error' ? 'Failed' : 'Ready';
+                            card.warning.textContent = warningText || '';
+                            card.warning.classList.toggle('hidden', !warningText);
+                            card.buttons.forEach(button => button.disabled = status === 'generating');
+                        }
+
+                        function showSplitPlan(repoName, units, commits) {
+                            splitPlan = {
+                                repoName: repoName,
+                                units: units,
+                                commits: commits.map(commit => ({ message: commit.message, units: commit.units.slice() })),
+                            };
+                            renderSplitPlan();
+                        }
+
+                        // Units can be moved between commits or left out, in which case they stay staged
+                        function renderSplitPlan() {
+                            splitPlanDiv.innerHTML = '';
+                            splitPlanDiv.classList.toggle('hidden', !splitPlan);
+                            if (!splitPlan) {
+                                return;
+                            }
+                            const plan = splitPlan;
+                            const unitOrder = id => plan.units.findIndex(unit => unit.id === id);
+                            const moveUnit = (id, target) => {
+                                plan.commits.forEach(commit => commit.units = commit.units.filter(unitId => unitId !== id));
+                                if (target >= 0) {
+                                    plan.commits[target].units.push(id);
+                                    plan.commits[target].units.sort((a, b) => unitOrder(a) - unitOrder(b));
+                                }
+                                renderSplitPlan();
+                            };
+                            const addUnits = (card, unitIds, current) => {
+                                unitIds.forEach(id => {
+                                    const unit = plan.units[unitOrder(id)];
+                                    const row = document.createElement('div');
+                                    row.className = 'split-unit';
+                                    const label = document.createElement('span');
+                                    label.textContent = unit.path + ' ' + unit.label;
+                                    label.title = label.textContent;
+                                    const select = document.createElement('select');
+                                    select.title = 'Move this change to another commit';
+                                    plan.commits.forEach((_, index) => {
+                                        const option = document.createElement('option');
+                                        option.value = String(index);
+                                        option.textContent = 'Commit ' + (index + 1);
+                                        select.appendChild(option);
+                                    });
+                                    const leaveOption = document.createElement('option');
+                                    leaveOption.value = '-1';
+                                    leaveOption.textContent = 'Leave staged';
+                                    select.appendChild(leaveOption);
+                                    select.value = String(current);
+                                    select.onchange = () => moveUnit(id, Number(select.value));
+                                    row.appendChild(label);
+                                    row.appendChild(select);
+                                    card.appendChild(row);
+                                });
+                            };
+
+                            const title = document.createElement('div');
+                            title.className = 'candidate-header';
+                            title.textContent = 'Commit split' + (plan.repoName ? ' · ' + plan.repoName : '');
+                            splitPlanDiv.appendChild(title);
+
+                            plan.commits.forEach((commit, index) => {
+                                const card = document.createElement('div');
+                                card.className = 'candidate';
+                                const header = document.createElement('div');
+                                header.className = 'candidate-header';
+                                const name = document.createElement('span');
+                                name.textContent = 'Commit ' + (index + 1) + (commit.units.length === 0 ? ' (empty, skipped)' : '');
+                                const removeBtn = document.createElement('button');
+                                removeBtn.innerHTML = '<span class="emoji-icon">🗑️</span>';
+                                removeBtn.title = 'Remove this commit; its changes stay staged';
+                                removeBtn.onclick = () => {
+                                    plan.commits.splice(index, 1);
+                                    renderSplitPlan();
+                                };
+                                header.appendChild(name);
+                                header.appendChild(removeBtn);
+                                card.appendChild(header);
+
+                                const textarea = document.createElement('textarea');
+                                textarea.value = commit.message;
+                                textarea.placeholder = 'Commit message';
+                                textarea.oninput = () => commit.message = textarea.value;
+                                card.appendChild(textarea);
+                                addUnits(card, commit.units, index);
+                                splitPlanDiv.appendChild(card);
+                            });
+
+                            const assigned = new Set();
+                            plan.commits.forEach(commit => commit.units.forEach(id => assigned.add(id)));
+                            const leftOut = plan.units.filter(unit => !assigned.has(unit.id)).map(unit => unit.id);
+                            if (leftOut.length > 0) {
+                                const card = document.createElement('div');
+                                card.className = 'candidate';
+                                const header = document.createElement('div');
+                                header.className = 'candidate-header';
+                                header.textContent = 'Left staged';
+                                card.appendChild(header);
+                                addUnits(card, leftOut, -1);
+                                splitPlanDiv.appendChild(card);
+                            }
+
+                            const buttons = document.createElement('div');
+                            buttons.className = 'button-row';
+                            buttons.style.marginTop = '6px';
+                            const addCommitBtn = document.createElement('button');
+                            addCommitBtn.innerHTML = '<span class="emoji-icon">➕</span> Add';
+                            addCommitBtn.title = 'Add an empty commit to move changes into';
+                            addCommitBtn.onclick = () => {
+                                plan.commits.push({ message: '', units: [] });
+                                renderSplitPlan();
+                            };
+                            const commitAllBtn = document.createElement('button');
+                            commitAllBtn.innerHTML = '<span class="emoji-icon">✓</span> Commit All';
+                            commitAllBtn.title = 'Create the commits in this order';
+                            commitAllBtn.disabled = !plan.commits.some(commit => commit.units.length > 0);
+                            commitAllBtn.onclick = () => {
+                                commitAllBtn.disabled = true;
+                                vscode.postMessage({ command: 'executeSplit', value: plan.commits });
+                            };
+                            const cancelSplitBtn = document.createElement('button');
+                            cancelSplitBtn.innerHTML = '<span class="emoji-icon">✖</span> Cancel';
+                            cancelSplitBtn.title = 'Discard the plan; nothing is committed';
+                            cancelSplitBtn.onclick = () => vscode.postMessage({ command: 'cancelSplit' });
+                            buttons.appendChild(addCommitBtn);
+                            buttons.appendChild(commitAllBtn);
+                            buttons.appendChild(cancelSplitBtn);
+                            splitPlanDiv.appendChild(buttons);
+                        }
+
+                        const safetyCategories = [
+                            ['harassment', 'Harassment'],
+                            ['hateSpeech', 'Hate speech'],
+                            ['sexuallyExplicit', 'Sexually explicit'],
+                            ['dangerousContent', 'Dangerous content']
+                        ];
+                        const safetyThresholds = [
+                            ['providerDefault', 'Provider default'],
+                            ['blockNone', 'Block none'],
+                            ['blockOnlyHigh', 'Block only high'],
+                            ['blockMediumAndAbove', 'Block medium and above'],
+                            ['blockLowAndAbove', 'Block low and above']
+                        ];
+                        const safetySelects = {};
+
+                        // Safety thresholds only apply to Gemini, but are kept when switching providers
+                        function createSafetySelects() {
+                            safetyCategories.forEach(([category, label]) => {
+                                const row = document.createElement('div');
+                                row.className = 'parameter-row';
+                                const rowLabel = document.createElement('label');
+                                rowLabel.textContent = label;
+                                rowLabel.title = 'Gemini only';
+                                const select = document.createElement('select');
+                                select.title = 'When to block a Gemini response for ' + label.toLowerCase();
+                                safetyThresholds.forEach(([value, text]) => {
+                                    const option = document.createElement('option');
+                                    option.value = value;
+                                    option.textContent = text;
+                                    select.appendChild(option);
+                                });
+                                select.addEventListener('change', () => setGenerationParameter('safety.' + category, select.value));
+                                row.appendChild(rowLabel);
+                                row.appendChild(select);
+                                safetyParameters.appendChild(row);
+                                safetySelects[category] = select;
+                            });
+                        }
+
+                        function updateGenerationParameters(generation) {
+                            generation = generation || {};
+                            currentGeneration = generation;
+                            const show = value => value === undefined || value === null ? '' : String(value);
+                            temperatureInput.value = show(generation.temperature);
+                            topPInput.value = show(generation.topP);
+                            maxOutputTokensInput.value = show(generation.maxOutputTokens);
+                            stopSequencesInput.value = (generation.stopSequences || []).join('\\n');
+                            systemInstructionInput.value = generation.systemInstruction || '';
+                            safetyCategories.forEach(([category]) => {
+                                safetySelects[category].value = (generation.safety || {})[category] || 'blockMediumAndAbove';
+                            });
+                        }
+
+                        function setGenerationParameter(key, value) {
+                            console.log('Generation parameter changed:', key);
+                            vscode.postMessage({ command: 'setGenerationParameter', key, value });
+                        }
+
+                        // An emptied or invalid number goes back to the provider default
+                        function readNumber(input) {
+                            const value = parseFloat(input.value);
+                            return input.value.trim() === '' || isNaN(value) ? null : value;
+                        }
+
                         function updateTemplateList(templates) {
                             currentTemplates = templates || {};
                             templateList.innerHTML = '';
@@ -1085,8 +3417,9 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
 
                                 const nameSpan = document.createElement('span');
                                 nameSpan.className = 'template-name';
-                                nameSpan.textContent = template.name;
-                                nameSpan.title = template.name;
+                                nameSpan.textContent = (id === defaultTemplateId ? '⭐ ' : '') + (id === projectTemplateId ? '📌 ' : '') + template.name;
+                                const paths = (template.projectPaths || []).join('\\n');
+                                nameSpan.title = template.name + (paths ? '\\nUsed for:\\n' + paths : '');
                                 div.appendChild(nameSpan);
 
                                 const actionsDiv = document.createElement('div');
@@ -1114,7 +3447,47 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                                     });
                                 };
 
+                                const assignBtn = document.createElement('button');
+                                assignBtn.innerHTML = '<span class="emoji-icon">📌</span>';
+                                assignBtn.title = id === projectTemplateId
+                                    ? 'Stop using this template for the current repository'
+                                    : 'Use this template for the current repository' + (currentRepoPath ? ' (' + currentRepoPath + ')' : '');
+                                assignBtn.onclick = (e) => {
+                                    e.stopPropagation();
+                                    vscode.postMessage({
+                                        command: 'assignTemplateToRepo',
+                                        value: id
+                                    });
+                                };
+
+                                const defaultBtn = document.createElement('button');
+                                defaultBtn.innerHTML = '<span class="emoji-icon">⭐</span>';
+                                defaultBtn.title = id === defaultTemplateId ? 'Unset as default template' : 'Set as default template';
+                                defaultBtn.onclick = (e) => {
+                                    e.stopPropagation();
+                                    vscode.postMessage({
+                                        command: 'setDefaultTemplate',
+                                        value: id
+                                    });
+                                };
+
+                                const parametersBtn = document.createElement('button');
+                                parametersBtn.innerHTML = '<span class="emoji-icon">🎛️</span>';
+                                parametersBtn.title = template.parameters
+                                    ? 'Use the generation parameters from the settings with this template'
+                                    : 'Always use the current generation parameters with this template';
+                                parametersBtn.onclick = (e) => {
+                                    e.stopPropagation();
+                                    vscode.postMessage({
+                                        command: 'toggleTemplateParameters',
+                                        value: id
+                                    });
+                                };
+
                                 actionsDiv.appendChild(useBtn);
+                                actionsDiv.appendChild(assignBtn);
+                                actionsDiv.appendChild(defaultBtn);
+                                actionsDiv.appendChild(parametersBtn);
                                 actionsDiv.appendChild(deleteBtn);
                                 div.appendChild(actionsDiv);
                                 
@@ -1162,9 +3535,15 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             
                             vscode.setState({
                                 hasApiKey: currentApiKeySet,
+                                requiresApiKey: currentRequiresApiKey,
+                                apiKeyLabel: currentApiKeyLabel,
                                 prompt: promptTemplate.value,
+                                provider: providerSelect.value,
+                                providers: currentProviders,
                                 selectedModel: modelSelect.value,
                                 alwaysUseGenerated: alwaysUseGenerated.checked,
+                                commitStyle: commitStyleSelect.value,
+                                generation: currentGeneration,
                                 templates: currentTemplates,
                                 selectedTemplateId,
                                 collapsedSections
@@ -1187,6 +3566,12 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             }
                         });
 
+                        cancelBtn.addEventListener('click', () => {
+                            console.log('Cancel button clicked');
+                            generateStatus.textContent = 'Cancelling...';
+                            vscode.postMessage({ command: 'cancelGeneration' });
+                        });
+
                         savePromptBtn.addEventListener('click', () => {
                             console.log('Save Prompt button clicked');
                             generateStatus.textContent = '';
@@ -1196,8 +3581,23 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             });
                         });
 
+                        providerSelect.addEventListener('change', () => {
+                            console.log('Provider selection changed');
+                            vscode.postMessage({
+                                command: 'setProvider',
+                                value: providerSelect.value
+                            });
+                        });
+
                         modelSelect.addEventListener('change', () => {
                             console.log('Model selection changed');
+                            if (modelSelect.value === '__custom__') {
+                                // The extension asks for the ID and sends the new selection back
+                                modelSelect.value = currentModelId;
+                                vscode.postMessage({ command: 'enterCustomModel' });
+                                return;
+                            }
+                            currentModelId = modelSelect.value;
                             vscode.postMessage({
                                 command: 'setModel',
                                 value: modelSelect.value
@@ -1205,6 +3605,28 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             saveState();
                         });
 
+                        refreshModelsBtn.addEventListener('click', () => {
+                            console.log('Refresh models button clicked');
+                            vscode.postMessage({ command: 'refreshModels' });
+                        });
+
+                        commitStyleSelect.addEventListener('change', () => {
+                            console.log('Commit style changed');
+                            vscode.postMessage({
+                                command: 'setCommitStyle',
+                                value: commitStyleSelect.value
+                            });
+                            saveState();
+                        });
+
+                        temperatureInput.addEventListener('change', () => setGenerationParameter('temperature', readNumber(temperatureInput)));
+                        topPInput.addEventListener('change', () => setGenerationParameter('topP', readNumber(topPInput)));
+                        maxOutputTokensInput.addEventListener('change', () => setGenerationParameter('maxOutputTokens', readNumber(maxOutputTokensInput)));
+                        stopSequencesInput.addEventListener('change', () => {
+                            setGenerationParameter('stopSequences', stopSequencesInput.value.split('\\n').filter(stop => stop !== ''));
+                        });
+                        systemInstructionInput.addEventListener('change', () => setGenerationParameter('systemInstruction', systemInstructionInput.value));
+
                         alwaysUseGenerated.addEventListener('change', () => {
                             console.log('Always use generated changed');
                             vscode.postMessage({
@@ -1241,6 +3663,11 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             vscode.postMessage({ command: 'copyLastCommitMessage' });
                         });
 
+                        usageBtn.addEventListener('click', () => {
+                            console.log('Usage button clicked');
+                            vscode.postMessage({ command: 'showUsage' });
+                        });
+
                         promptTemplate.addEventListener('blur', saveState);
                         
                         // Collapsible section handlers
@@ -1256,10 +3683,15 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                             switch (message.command) {
                                 case 'updateSettings':
                                     console.log('Updating UI from received settings:', message);
-                                    updateApiKeyStatus(message.hasApiKey);
+                                    updateApiKeyStatus(message.hasApiKey, message.requiresApiKey, message.apiKeyLabel);
                                     updatePrompt(message.prompt);
-                                    modelSelect.value = message.selectedModel || 'gemini-2.0-flash';
+                                    updateProviderOptions(message.providers, message.provider, message.selectedModel);
                                     alwaysUseGenerated.checked = message.alwaysUseGenerated || false;
+                                    commitStyleSelect.value = message.commitStyle || 'template';
+                                    updateGenerationParameters(message.generation);
+                                    defaultTemplateId = message.defaultTemplateId || '';
+                                    projectTemplateId = message.projectTemplateId || '';
+                                    currentRepoPath = message.currentRepoPath || '';
                                     updateTemplateList(message.templates);
                                     selectedTemplateId = message.selectedTemplateId;
                                     generateStatus.textContent = '';
@@ -1268,16 +3700,45 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
                                     break;
                                 case 'clearGeneratingStatus':
                                     generateStatus.textContent = '';
+                                    cancelBtn.classList.add('hidden');
+                                    break;
+                                case 'generationStarted':
+                                    generateStatus.textContent = 'Generating...';
+                                    cancelBtn.classList.remove('hidden');
+                                    break;
+                                case 'showCandidates':
+                                    showCandidates(message.repoName, message.temperatures || []);
+                                    break;
+                                case 'candidateUpdated':
+                                    updateCandidate(message.index, message.text, message.status, message.warning);
+                                    if (message.status === 'generating') {
+                                        cancelBtn.classList.remove('hidden');
+                                    }
+                                    break;
+                                case 'showSplitPlan':
+                                    showSplitPlan(message.repoName, message.units || [], message.commits || []);
+                                    break;
+                                case 'clearSplitPlan':
+                                    splitPlan = null;
+                                    renderSplitPlan();
+                                    break;
+                                case 'candidateToken':
+                                    if (candidateCards[message.index]) {
+                                        candidateCards[message.index].textarea.value += message.value;
+                                    }
                                     break;
                             }
                         });
 
                         // --- Initialization ---
                         console.log('Webview script initializing...');
-                        updateApiKeyStatus(previousState.hasApiKey);
+                        updateApiKeyStatus(previousState.hasApiKey, previousState.requiresApiKey, previousState.apiKeyLabel);
                         updatePrompt(previousState.prompt);
-                        modelSelect.value = previousState.selectedModel;
+                        updateProviderOptions(previousState.providers, previousState.provider, previousState.selectedModel);
                         alwaysUseGenerated.checked = previousState.alwaysUseGenerated;
+                        commitStyleSelect.value = previousState.commitStyle || 'template';
+                        createSafetySelects();
+                        updateGenerationParameters(previousState.generation);
                         updateTemplateList(previousState.templates);
                         selectedTemplateId = previousState.selectedTemplateId;
                         restoreCollapsedState();
@@ -1401,11 +3862,182 @@ class CommitMessageViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    // Assigns the repository to a template (or removes it if already assigned). A repository
+    // belongs to at most one template, so it is removed from all other templates.
+    private async _toggleTemplateForRepo(templateId: string) {
+        const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+        const templates = config.get<SavedTemplates>('savedTemplates') || {};
+        const template = templates[templateId];
+
+        if (!template) {
+            vscode.window.showErrorMessage("Template not found.");
+            return;
+        }
+
+        let repoPath = getSelectedScmRepoPath();
+        if (!repoPath) {
+            const repositories = await getGitRepositories();
+            if (repositories.length === 0) {
+                vscode.window.showErrorMessage("No git repositories found in workspace");
+                return;
+            }
+            const selection = await vscode.window.showQuickPick(
+                repositories.map(repo => ({ label: repo.name, description: repo.path, repo })),
+                { placeHolder: `Select the repository to use "${template.name}" for` }
+            );
+            if (!selection) {
+                return; // User cancelled
+            }
+            repoPath = selection.repo.path;
+        }
+
+        const wasAssigned = (template.projectPaths || []).some(p => isSamePath(p, repoPath!));
+        const updated: SavedTemplates = {};
+        for (const [id, t] of Object.entries(templates)) {
+            const otherPaths = (t.projectPaths || []).filter(p => !isSamePath(p, repoPath!));
+            updated[id] = { ...t, projectPaths: id === templateId && !wasAssigned ? [...otherPaths, repoPath] : otherPaths };
+        }
+
+        try {
+            await config.update('savedTemplates', updated, vscode.ConfigurationTarget.Global);
+            this._updateWebviewSettings();
+            vscode.window.showInformationMessage(wasAssigned
+                ? `Template "${template.name}" is no longer used for ${repoPath}.`
+                : `Template "${template.name}" will be used for ${repoPath}.`);
+        } catch (error: any) {
+            console.error("Error assigning template:", error);
+            vscode.window.showErrorMessage(`Failed to assign template: ${error.message}`);
+        }
+    }
+
+    private async _toggleDefaultTemplate(templateId: string) {
+        const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+        const templates = config.get<SavedTemplates>('savedTemplates') || {};
+
+        if (!templates[templateId]) {
+            vscode.window.showErrorMessage("Template not found.");
+            return;
+        }
+
+        const isDefault = config.get<string>('defaultTemplateId') === templateId;
+        try {
+            await config.update('defaultTemplateId', isDefault ? '' : templateId, vscode.ConfigurationTarget.Global);
+            vscode.window.showInformationMessage(isDefault
+                ? `Template "${templates[templateId].name}" is no longer the default.`
+                : `Template "${templates[templateId].name}" is now the default.`);
+        } catch (error: any) {
+            console.error("Error setting default template:", error);
+            vscode.window.showErrorMessage(`Failed to set default template: ${error.message}`);
+        }
+    }
+
+    // Saves the current generation parameters with a template, so they apply whenever the
+    // template is used, or removes the template's own parameters again
+    private async _toggleTemplateParameters(templateId: string) {
+        const config = vscode.workspace.getConfiguration('gitDiffCommitGenerator');
+        const templates = config.get<SavedTemplates>('savedTemplates') || {};
+        const template = templates[templateId];
+
+        if (!template) {
+            vscode.window.showErrorMessage("Template not found.");
+            return;
+        }
+
+        const { parameters, ...rest } = template;
+        templates[templateId] = parameters ? rest : { ...rest, parameters: getGenerationParameters(config) };
+        try {
+            await config.update('savedTemplates', templates, vscode.ConfigurationTarget.Global);
+            vscode.window.showInformationMessage(parameters
+                ? `Template "${template.name}" now uses the generation parameters from the settings.`
+                : `Template "${template.name}" now uses the current generation parameters, even when the settings change.`);
+        } catch (error: any) {
+            console.error("Error saving template parameters:", error);
+            vscode.window.showErrorMessage(`Failed to save template: ${error.message}`);
+        }
+    }
+
     public clearGeneratingStatus() {
         if (this._view) {
             this._view.webview.postMessage({ command: 'clearGeneratingStatus' });
         }
     }
+
+    public startGeneration() {
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'generationStarted' });
+        }
+    }
+
+    public showCandidates(session: GenerationSession) {
+        this._candidates = {
+            repoName: session.repoName,
+            temperatures: session.temperatures,
+            cards: session.temperatures.map(() => ({ text: "", status: "generating" as const })),
+        };
+        if (this._view) {
+            this._view.show?.(true);
+            this._postCandidates();
+        } else {
+            // The view has never been opened; the candidates are posted once it loads
+            vscode.commands.executeCommand(`${CommitMessageViewProvider.viewType}.focus`);
+        }
+    }
+
+    public updateCandidate(index: number, candidate: CandidateCard) {
+        if (this._candidates?.cards[index]) {
+            this._candidates.cards[index] = candidate;
+        }
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'candidateUpdated', index, ...candidate });
+        }
+    }
+
+    public appendCandidateText(index: number, text: string) {
+        if (this._candidates?.cards[index]) {
+            this._candidates.cards[index].text += text;
+        }
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'candidateToken', index, value: text });
+        }
+    }
+
+    public showSplitPlan(repoName: string, units: SplitUnit[], commits: SplitCommit[]) {
+        this._splitPlan = { repoName, units, commits };
+        if (this._view) {
+            this._view.show?.(true);
+            this._postSplitPlan();
+        } else {
+            vscode.commands.executeCommand(`${CommitMessageViewProvider.viewType}.focus`);
+        }
+    }
+
+    public clearSplitPlan() {
+        this._splitPlan = undefined;
+        if (this._view) {
+            this._view.webview.postMessage({ command: 'clearSplitPlan' });
+        }
+    }
+
+    private _postSplitPlan() {
+        if (this._view && this._splitPlan) {
+            this._view.webview.postMessage({ command: 'showSplitPlan', ...this._splitPlan });
+        }
+    }
+
+    private _postCandidates() {
+        if (!this._view || !this._candidates) {
+            return;
+        }
+        this._view.webview.postMessage({
+            command: 'showCandidates',
+            repoName: this._candidates.repoName,
+            temperatures: this._candidates.temperatures,
+        });
+        this._candidates.cards.forEach((card, index) => {
+            this._view?.webview.postMessage({ command: 'candidateUpdated', index, ...card });
+        });
+    }
+
 }
 
 // --- Helper to generate nonce ---
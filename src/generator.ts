@@ -0,0 +1,356 @@
+// src/generator.ts
+import { GenerationError, GenerationParameters, PROVIDERS, ProviderDescriptor, ProviderId, TokenUsage, classifyError, createProvider } from "./providers";
+import { DEFAULT_RETRY_SETTINGS, RetrySettings, withRetry } from "./retry";
+import { chunkDiff, estimateTokens } from "./diff";
+import {
+    ConventionalCommit,
+    ConventionalCommitRules,
+    forceConventionalCommit,
+    parseConventionalCommit,
+    renderConventionalCommit,
+    repairConventionalCommit,
+    validateConventionalCommit,
+} from "./conventionalCommits";
+
+// --- Generator Types ---
+export interface ActiveProviderSettings {
+    descriptor: ProviderDescriptor;
+    model: string;
+    apiKey: string;
+    apiKeyLabel?: string;
+    baseUrl?: string;
+    fallbackModels?: string[];  // Tried in order when `model` fails
+    retry?: RetrySettings;      // DEFAULT_RETRY_SETTINGS when omitted
+}
+
+export interface ModelFailure {
+    model: string;
+    error: GenerationError;
+}
+
+// Token counts of one answered request. Estimated from the text length when the
+// provider did not report them (e.g. streamed OpenAI-compatible responses).
+export interface ModelUsage extends TokenUsage {
+    provider: ProviderId;
+    model: string;
+    estimated: boolean;
+}
+
+export interface GenerateCommitMessageOptions {
+    providerSettings: ActiveProviderSettings;
+    prompt: string;
+    diff: string;
+    maxPromptTokens: number;
+    onProgress?: (message: string, increment?: number) => void;
+    // Streams the text of the final message as it is generated
+    onToken?: (text: string) => void;
+    signal?: AbortSignal;
+    temperature?: number;           // Overrides the one in `parameters`, e.g. per candidate
+    parameters?: GenerationParameters;
+    // Result of prepareGenerationPrompt(), to reuse one map-reduce pass for several requests
+    preparedPrompt?: string;
+    // Called when a fallback model answered, with the failures of the models before it
+    onFallback?: (model: string, failures: ModelFailure[]) => void;
+    // Called for every answered request, including summaries of large diffs and repairs
+    onUsage?: (usage: ModelUsage) => void;
+}
+
+export interface ConventionalCommitOptions extends GenerateCommitMessageOptions {
+    rules: ConventionalCommitRules;
+    maxRepairAttempts: number;
+}
+
+export interface ConventionalCommitResult {
+    message: string;
+    violations: string[]; // Rules still broken after all repair attempts
+}
+
+const CHUNK_SUMMARY_PROMPT =
+    "You are reading one part of a larger staged git diff that was split because it is too big to read at once.\n" +
+    "Summarize the changes in this part. For every file, write one line with the file path and a short description of what changed.\n" +
+    "Do not write a commit message.";
+
+const CONDENSE_SUMMARY_PROMPT =
+    "Below are summaries of several parts of a large staged git diff.\n" +
+    "Merge them into one shorter summary that still mentions every changed file and what changed in it.\n" +
+    "Do not write a commit message.";
+
+const MAX_CONDENSE_ROUNDS = 3;
+
+export function buildDiffPrompt(prompt: string, diff: string): string {
+    return `${prompt}\n\nHere are the diffs:\n\`\`\`diff\n${diff}\n\`\`\``;
+}
+
+// --- generateCommitMessage Function ---
+// Sends the diff in one request when it fits `maxPromptTokens`. Larger diffs are split
+// into chunks that are summarized separately (map), then the summaries are merged and
+// the commit message is written from them (reduce).
+export async function generateCommitMessage(options: GenerateCommitMessageOptions): Promise<string> {
+    const { providerSettings, onToken } = options;
+    const { descriptor } = providerSettings;
+    const prompt = options.preparedPrompt ?? await prepareGenerationPrompt(options);
+    const parameters = getMessageParameters(options);
+
+    console.log(`Sending prompt to ${descriptor.displayName} (Prompt length: ${prompt.length}, temperature: ${parameters.temperature ?? 'default'})`);
+    const text = await requestText(options, { prompt, onToken, parameters });
+
+    console.log(`Received text from ${descriptor.displayName}:`, text);
+    return text;
+}
+
+// --- Requests ---
+// Sends one prompt, retrying transient errors (see retry.ts), then tries each fallback
+// model in order. Text passed to `onToken` cannot be taken back, so once a response has
+// started streaming its failure is final. Failures are user-facing GenerationErrors.
+async function requestText(
+    options: GenerateCommitMessageOptions,
+    request: { prompt: string, onToken?: (text: string) => void, parameters?: GenerationParameters }
+): Promise<string> {
+    const { providerSettings, onProgress, signal } = options;
+    const { descriptor } = providerSettings;
+    const provider = createProvider(descriptor.id, {
+        apiKey: providerSettings.apiKey,
+        baseUrl: providerSettings.baseUrl,
+    });
+    const retry = providerSettings.retry ?? DEFAULT_RETRY_SETTINGS;
+    const models = [providerSettings.model, ...getFallbackModels(providerSettings)];
+    const failures: ModelFailure[] = [];
+    let streamed = false;
+
+    for (let i = 0; ; i++) {
+        const model = models[i];
+        let usage: TokenUsage | undefined;
+        try {
+            const text = await withRetry((attemptSignal, keepAlive) => provider.generate({
+                model,
+                prompt: request.prompt,
+                ...request.parameters,
+                signal: attemptSignal,
+                onUsage: reported => usage = reported,
+                onToken: request.onToken && (piece => {
+                    streamed = true;
+                    keepAlive();
+                    request.onToken!(piece);
+                }),
+            }), retry, {
+                signal,
+                canRetry: () => !streamed,
+                onRetry: (error, attempt, delayMs) => onProgress?.(
+                    `${describeGenerationError(error)}. Retrying in ${Math.ceil(delayMs / 1000)}s (${attempt} of ${retry.maxRetries})...`),
+            });
+            if (failures.length > 0) {
+                options.onFallback?.(model, failures);
+            }
+            options.onUsage?.({
+                provider: descriptor.id,
+                model,
+                promptTokens: usage?.promptTokens ?? estimateTokens(request.prompt + (request.parameters?.systemInstruction ?? "")),
+                outputTokens: usage?.outputTokens ?? estimateTokens(text),
+                estimated: !usage,
+            });
+            return text;
+        } catch (e: any) {
+            const error = classifyError(e);
+            failures.push({ model, error });
+            // A fallback model does not help with a bad API key
+            if (streamed || error.kind === "cancelled" || error.kind === "auth" || i === models.length - 1) {
+                throw toUserError(descriptor, failures);
+            }
+            console.warn(`${model} failed (${error.kind}), falling back to ${models[i + 1]}.`);
+            onProgress?.(`${model} failed (${describeGenerationError(error)}). Trying ${models[i + 1]}...`);
+        }
+    }
+}
+
+// All parameters apply to requests that write the message. Summaries of large diffs only
+// use the safety thresholds, so output limits and stop sequences cannot cut them short.
+function getMessageParameters(options: GenerateCommitMessageOptions): GenerationParameters {
+    return { ...options.parameters, temperature: options.temperature ?? options.parameters?.temperature };
+}
+
+function getSummaryParameters(options: GenerateCommitMessageOptions): GenerationParameters {
+    return { safety: options.parameters?.safety };
+}
+
+// Fallback models that belong to another provider (left over after switching) are skipped
+function getFallbackModels(providerSettings: ActiveProviderSettings): string[] {
+    const { descriptor, model } = providerSettings;
+    const ownedByOther = (id: string) => PROVIDERS.some(p => p.id !== descriptor.id && p.models.some(m => m.id === id));
+    return [...new Set((providerSettings.fallbackModels || []).map(id => id.trim()))]
+        .filter(id => id && id !== model && !ownedByOther(id));
+}
+
+// Why the response came from a fallback model, for the user
+export function describeFallback(model: string, failures: ModelFailure[]): string {
+    return `Answered by fallback model ${model} (${failures.map(f => `${f.model}: ${describeGenerationError(f.error)}`).join("; ")}).`;
+}
+
+// A short reason for progress messages and fallback notices
+export function describeGenerationError(error: GenerationError): string {
+    switch (error.kind) {
+        case "auth":
+            return "API key rejected";
+        case "quota":
+            return "quota exceeded or rate limited";
+        case "server":
+            return error.status ? `server error ${error.status}` : "server unavailable";
+        case "timeout":
+            return "timed out";
+        case "safety":
+            return "blocked by safety filters";
+        case "network":
+            return "network error";
+        case "cancelled":
+            return "cancelled";
+        case "request":
+            return error.message;
+    }
+}
+
+// Builds the final prompt: the template plus the diff, or the template plus summaries
+// of the diff when it does not fit the token budget.
+export async function prepareGenerationPrompt(options: GenerateCommitMessageOptions): Promise<string> {
+    const { prompt, diff, maxPromptTokens } = options;
+
+    const fullPrompt = buildDiffPrompt(prompt, diff);
+    const promptTokens = estimateTokens(fullPrompt);
+    if (promptTokens <= maxPromptTokens) {
+        return fullPrompt;
+    }
+
+    console.log(`Diff is ~${promptTokens} tokens, over the ${maxPromptTokens} token budget. Summarizing in chunks...`);
+    return buildSummarizedPrompt(options);
+}
+
+async function buildSummarizedPrompt(options: GenerateCommitMessageOptions): Promise<string> {
+    const { prompt, diff, maxPromptTokens, onProgress } = options;
+    // Leave room for the summary instructions and the code fence around the chunk
+    const chunkBudget = Math.max(maxPromptTokens - estimateTokens(CHUNK_SUMMARY_PROMPT) - 50, 500);
+    const chunks = chunkDiff(diff, chunkBudget);
+    console.log(`Split diff into ${chunks.length} chunks.`);
+
+    const summaries: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+        onProgress?.(`Summarizing part ${i + 1} of ${chunks.length}...`, 80 / chunks.length);
+        const summary = await requestText(options, {
+            prompt: buildDiffPrompt(`${CHUNK_SUMMARY_PROMPT}\n\nThis is part ${i + 1} of ${chunks.length}.`, chunks[i]),
+            parameters: getSummaryParameters(options),
+        });
+        summaries.push(summary.trim());
+    }
+
+    // A template that takes up most of the budget still leaves room for the summaries;
+    // without the floor every summary would be condensed on its own and then cut to nothing
+    const finalBudget = Math.max(maxPromptTokens - estimateTokens(prompt) - 100, 500);
+    const combined = await condenseSummaries(options, summaries, finalBudget);
+
+    onProgress?.("Writing commit message from summaries...");
+    return `${prompt}\n\nThe staged diff was too large to include in full. ` +
+        `Here is a summary of all of its changes:\n\n${combined}`;
+}
+
+// Asks the model to rewrite a previous message according to a user instruction
+// ("shorter", "mention the migration"), with the original prompt and diff as context.
+export function buildRefinementPrompt(preparedPrompt: string, previousMessage: string, instruction: string): string {
+    return `${preparedPrompt}\n\nA previous answer to this request was the following commit message:\n\n` +
+        `${previousMessage}\n\n` +
+        `Rewrite it according to this instruction: ${instruction}\n` +
+        "Keep everything that is still accurate and answer in the format requested above.";
+}
+
+// --- Conventional Commits ---
+// The JSON is not streamed (`onToken` is ignored), it is only useful once complete.
+// Asks for a structured commit (the prompt must request the JSON described in
+// conventionalCommits.ts), then validates it. Mechanical problems are repaired locally;
+// anything else is sent back to the model with the list of violations.
+export async function generateConventionalCommitMessage(options: ConventionalCommitOptions): Promise<ConventionalCommitResult> {
+    const { rules, maxRepairAttempts, onProgress } = options;
+    let text = await generateCommitMessage({ ...options, onToken: undefined });
+    let commit: ConventionalCommit | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+        let problems: string[];
+        try {
+            commit = repairConventionalCommit(parseConventionalCommit(text), rules);
+            problems = validateConventionalCommit(commit, rules);
+        } catch (error: any) {
+            problems = [error.message];
+        }
+
+        if (problems.length === 0 && commit) {
+            return { message: renderConventionalCommit(commit), violations: [] };
+        }
+        console.warn(`Conventional commit attempt ${attempt + 1} has problems:`, problems);
+        if (attempt >= maxRepairAttempts) {
+            break;
+        }
+
+        onProgress?.(`Fixing commit message format (attempt ${attempt + 1} of ${maxRepairAttempts})...`);
+        text = await requestText(options, { prompt: buildRepairPrompt(text, problems), parameters: getMessageParameters(options) });
+    }
+
+    if (!commit) {
+        throw new Error("The model did not return a valid Conventional Commit JSON object.");
+    }
+    const forced = forceConventionalCommit(commit, rules);
+    return { message: renderConventionalCommit(forced), violations: validateConventionalCommit(forced, rules) };
+}
+
+function buildRepairPrompt(previousResponse: string, problems: string[]): string {
+    return "Your previous response was supposed to be a Conventional Commit as a JSON object, but it has these problems:\n" +
+        problems.map(p => `- ${p}`).join("\n") +
+        "\n\nHere is the previous response:\n" +
+        previousResponse +
+        "\n\nReturn only the corrected JSON object with the same fields (type, scope, subject, body, breakingChange, footers).";
+}
+
+// The last failure decides the message; with fallback models, every model tried is listed
+function toUserError(descriptor: ProviderDescriptor, failures: ModelFailure[]): GenerationError {
+    const { error } = failures[failures.length - 1];
+    console.error(`${descriptor.displayName} API error: ${error.message}`, error);
+    let userMessage = `${descriptor.displayName} API error: ${error.message}`;
+    if (error.kind === "auth") {
+        userMessage = `${descriptor.displayName} API key is not valid. Please check and set it again.`;
+    } else if (error.kind === "quota") {
+        userMessage = `${descriptor.displayName} API quota exceeded. Please check your usage limits.`;
+    } else if (error.kind === "cancelled") {
+        userMessage = error.message;
+    }
+    if (failures.length > 1) {
+        userMessage += ` Models tried: ${failures.map(f => `${f.model} (${describeGenerationError(f.error)})`).join(", ")}.`;
+    }
+    return new GenerationError(error.kind, userMessage, error.status, error.retryAfterMs);
+}
+
+// Merges batches of summaries until they fit in the final prompt, giving up after a
+// few rounds in case the model does not shorten them.
+async function condenseSummaries(options: GenerateCommitMessageOptions, summaries: string[], maxTokens: number): Promise<string> {
+    const { onProgress } = options;
+    let current = summaries;
+    for (let round = 0; round < MAX_CONDENSE_ROUNDS && estimateTokens(current.join("\n\n")) > maxTokens; round++) {
+        const batches: string[][] = [];
+        let batch: string[] = [];
+        for (const summary of current) {
+            if (batch.length > 0 && estimateTokens([...batch, summary].join("\n\n")) > maxTokens) {
+                batches.push(batch);
+                batch = [];
+            }
+            batch.push(summary);
+        }
+        batches.push(batch);
+
+        onProgress?.(`Merging ${current.length} summaries...`);
+        const condensed: string[] = [];
+        for (const group of batches) {
+            condensed.push((await requestText(options, {
+                prompt: `${CONDENSE_SUMMARY_PROMPT}\n\n${group.join("\n\n")}`,
+                parameters: getSummaryParameters(options),
+            })).trim());
+        }
+        current = condensed;
+    }
+
+    const joined = current.join("\n\n");
+    // Last resort: trim rather than send a prompt the model will reject
+    return estimateTokens(joined) > maxTokens ? joined.substring(0, maxTokens * 4) : joined;
+}
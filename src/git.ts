@@ -0,0 +1,310 @@
+// src/git.ts
+import * as cp from "child_process";
+import * as path from "path";
+import { FileStat, parseNumstat } from "./exclusions";
+
+// --- Diff Sources ---
+// Where the changes for a commit message come from. Every source produces a unified
+// diff that goes through the same prompt pipeline.
+export type DiffSource =
+    | { kind: "staged" }
+    | { kind: "workingTree" }                 // Staged and unstaged changes to tracked files, plus untracked files
+    | { kind: "files", paths: string[] }      // Absolute paths, e.g. picked in the Source Control view
+    | { kind: "range", range: string }        // "A..B", "A...B", or a single revision meaning "rev..HEAD"
+    | { kind: "commit", sha: string };        // The changes introduced by one commit
+
+export interface CommitInfo {
+    sha: string;
+    shortSha: string;
+    subject: string;
+    author: string;
+    relativeDate: string;
+    parents: string[];
+}
+
+export function describeDiffSource(source: DiffSource): string {
+    switch (source.kind) {
+        case "staged":
+            return "staged changes";
+        case "workingTree":
+            return "uncommitted changes";
+        case "files":
+            return source.paths.length === 1 ? `changes in ${path.basename(source.paths[0])}` : `changes in ${source.paths.length} files`;
+        case "range":
+            return `changes in ${normalizeRange(source.range)}`;
+        case "commit":
+            return `changes in commit ${source.sha.substring(0, 7)}`;
+    }
+}
+
+// Runs git without a shell, so ranges and paths typed by the user are passed verbatim.
+export function runGit(cwd: string, args: string[], options: { env?: NodeJS.ProcessEnv, input?: string } = {}): Promise<string> {
+    console.log(`Executing 'git ${args.join(" ")}' in ${cwd}`);
+    return new Promise((resolve, reject) => {
+        const env = options.env && { ...process.env, ...options.env };
+        const child = cp.execFile("git", args, { cwd, env, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                console.error(`Git error: ${error.message}`);
+                console.error(`Git stderr: ${stderr}`);
+                if (stderr.includes("not a git repository")) {
+                    reject(new Error("Not a git repository or no HEAD commit yet."));
+                } else {
+                    reject(new Error(`Git command failed: ${(stderr || error.message).trim()}`));
+                }
+                return;
+            }
+            resolve(stdout);
+        });
+        child.stdin?.end(options.input);
+    });
+}
+
+export function normalizeRange(range: string): string {
+    const trimmed = range.trim();
+    return trimmed.includes("..") ? trimmed : `${trimmed}..HEAD`;
+}
+
+async function hasHead(repoPath: string): Promise<boolean> {
+    try {
+        await runGit(repoPath, ["rev-parse", "--verify", "--quiet", "HEAD"]);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Arguments after "git diff" that select the changes of a source
+async function getDiffArgs(repoPath: string, source: DiffSource): Promise<string[]> {
+    switch (source.kind) {
+        case "staged":
+            return ["--cached"];
+        case "workingTree":
+            // Before the first commit there is no HEAD; the index is the closest baseline
+            return await hasHead(repoPath) ? ["HEAD"] : ["--cached"];
+        case "files":
+            return [
+                ...(await hasHead(repoPath) ? ["HEAD"] : ["--cached"]),
+                "--",
+                ...source.paths.map(p => path.relative(repoPath, p) || "."),
+            ];
+        case "range": {
+            const range = normalizeRange(source.range);
+            if (range.startsWith("-")) {
+                throw new Error(`Invalid commit range: ${source.range}`);
+            }
+            return [range, "--"];
+        }
+        case "commit":
+            throw new Error("Commit diffs are read with git show.");
+    }
+}
+
+// Untracked files are not part of `git diff HEAD`; they are listed by name so the
+// model knows about them.
+async function getUntrackedFiles(repoPath: string, source: DiffSource): Promise<string[]> {
+    if (source.kind !== "workingTree" && source.kind !== "files") {
+        return [];
+    }
+    const pathspecs = source.kind === "files" ? ["--", ...source.paths.map(p => path.relative(repoPath, p) || ".")] : [];
+    const output = await runGit(repoPath, ["ls-files", "--others", "--exclude-standard", ...pathspecs]);
+    return output.split(/\r?\n/).filter(line => line.trim());
+}
+
+// Returns the diff of the source, or "" when there are no changes.
+export async function getDiff(repoPath: string, source: DiffSource): Promise<string> {
+    if (source.kind === "commit") {
+        // Unlike "git diff sha^ sha", this also works for the root commit
+        return (await runGit(repoPath, ["show", "--format=", "--patch", source.sha, "--"])).trim();
+    }
+    const diff = (await runGit(repoPath, ["diff", ...await getDiffArgs(repoPath, source)])).trim();
+    const untracked = await getUntrackedFiles(repoPath, source);
+    console.log(`Git diff output length: ${diff.length}, untracked files: ${untracked.length}`);
+    if (untracked.length === 0) {
+        return diff;
+    }
+    const untrackedList = `New untracked files (contents not included):\n${untracked.join("\n")}`;
+    return diff ? `${untrackedList}\n\n${diff}` : untrackedList;
+}
+
+export async function getNumstat(repoPath: string, source: DiffSource): Promise<FileStat[]> {
+    try {
+        const args = source.kind === "commit"
+            ? ["show", "--format=", "--numstat", source.sha, "--"]
+            : ["diff", "--numstat", ...await getDiffArgs(repoPath, source)];
+        return parseNumstat(await runGit(repoPath, args));
+    } catch (error) {
+        // Statistics are optional context; the diff itself is still sent
+        console.error("Failed to read diff statistics:", error);
+        return [];
+    }
+}
+
+// Commits the staged changes. The message goes through stdin so it is stored as given.
+// Returns git's summary, e.g. "[main 1a2b3c4] Add x".
+export async function commitStaged(repoPath: string, message: string): Promise<string> {
+    const output = await runGit(repoPath, ["commit", "--file=-"], { input: `${message.trim()}\n` });
+    return output.split("\n")[0].trim();
+}
+
+// --- Branches ---
+// Local and remote-tracking branch names, e.g. "main" and "origin/main"
+export async function getBranches(repoPath: string): Promise<string[]> {
+    const output = await runGit(repoPath, ["for-each-ref", "--format=%(refname:short)", "refs/heads", "refs/remotes"]);
+    return output.split("\n").map(line => line.trim()).filter(name => name && !name.endsWith("/HEAD") && !name.includes(" "));
+}
+
+// Undefined when HEAD is detached. Unlike rev-parse, symbolic-ref also works before
+// the first commit.
+export async function getCurrentBranch(repoPath: string): Promise<string | undefined> {
+    try {
+        return (await runGit(repoPath, ["symbolic-ref", "--quiet", "--short", "HEAD"])).trim() || undefined;
+    } catch {
+        return undefined; // Detached
+    }
+}
+
+// Commits in `revisions` (e.g. "A..B", or "HEAD" for the whole history) oldest first,
+// as "- subject" with the body indented below it
+export async function getCommitLog(repoPath: string, revisions: string): Promise<string> {
+    if (revisions.startsWith("-")) {
+        throw new Error(`Invalid revision: ${revisions}`);
+    }
+    const output = await runGit(repoPath, ["log", "--reverse", "--no-merges", "--format=- %s%n%w(0,2,2)%b", revisions, "--"]);
+    return output.split("\n").filter(line => line.trim()).join("\n");
+}
+
+// --- Tags ---
+// Newest version first
+export async function getTags(repoPath: string): Promise<string[]> {
+    const output = await runGit(repoPath, ["tag", "--list", "--sort=-v:refname"]);
+    return output.split("\n").map(line => line.trim()).filter(tag => tag);
+}
+
+// The nearest tag reachable from `revision`, excluding `revision` itself when
+// `excludeSelf` is set (for the previous release of a tagged commit).
+export async function getNearestTag(repoPath: string, revision: string, excludeSelf: boolean): Promise<string | undefined> {
+    try {
+        return (await runGit(repoPath, ["describe", "--tags", "--abbrev=0", excludeSelf ? `${revision}^` : revision])).trim() || undefined;
+    } catch {
+        return undefined; // No earlier tag, or the root commit
+    }
+}
+
+// Committer date of a revision as YYYY-MM-DD
+export async function getCommitDate(repoPath: string, revision: string): Promise<string> {
+    return (await runGit(repoPath, ["log", "-1", "--format=%cs", revision, "--"])).trim();
+}
+
+// --- Rewording Commits ---
+export async function getRecentCommits(repoPath: string, count: number): Promise<CommitInfo[]> {
+    const output = await runGit(repoPath, ["log", `-n${count}`, "--format=%H%x1f%h%x1f%s%x1f%an%x1f%ar%x1f%P"]);
+    return output.split("\n").filter(line => line.trim()).map(line => {
+        const [sha, shortSha, subject, author, relativeDate, parents] = line.split("\x1f");
+        return { sha, shortSha, subject, author, relativeDate, parents: parents ? parents.split(" ") : [] };
+    });
+}
+
+async function isAncestor(repoPath: string, ancestor: string, descendant: string): Promise<boolean> {
+    try {
+        await runGit(repoPath, ["merge-base", "--is-ancestor", ancestor, descendant]);
+        return true;
+    } catch {
+        return false; // Exit code 1 means "not an ancestor"
+    }
+}
+
+// A commit counts as published when it is on the upstream of the current branch or on
+// any remote-tracking branch; rewriting it would require a force push.
+export async function isCommitPublished(repoPath: string, sha: string): Promise<boolean> {
+    let upstream: string | undefined;
+    try {
+        upstream = (await runGit(repoPath, ["rev-parse", "--abbrev-ref", "--symbolic-full-name", "@{u}"])).trim();
+    } catch {
+        upstream = undefined; // No upstream configured
+    }
+    if (upstream && await isAncestor(repoPath, sha, upstream)) {
+        return true;
+    }
+    const remoteBranches = await runGit(repoPath, ["branch", "-r", "--contains", sha]);
+    return remoteBranches.trim() !== "";
+}
+
+// Replaces the message of `sha`, which must be on the current branch. HEAD is amended.
+// For older commits the commit and every commit after it are recreated with the same
+// trees (no rebase, so the index and working tree are never touched) and the branch is
+// moved to the new tip. Authors and author dates are kept.
+export async function rewordCommit(repoPath: string, sha: string, message: string): Promise<void> {
+    const head = (await runGit(repoPath, ["rev-parse", "HEAD"])).trim();
+    const fullSha = (await runGit(repoPath, ["rev-parse", "--verify", `${sha}^{commit}`])).trim();
+
+    if (fullSha === head) {
+        // --only leaves anything already staged out of the amended commit
+        await runGit(repoPath, ["commit", "--amend", "--only", "--allow-empty", "-m", message]);
+        return;
+    }
+
+    if (!await isAncestor(repoPath, fullSha, head)) {
+        throw new Error("The commit is not on the current branch.");
+    }
+    const isMerge = (await runGit(repoPath, ["rev-list", "--parents", "-n1", fullSha])).trim().split(" ").length > 2;
+    if (isMerge || (await runGit(repoPath, ["rev-list", "--merges", `${fullSha}..HEAD`])).trim()) {
+        throw new Error("Merge commits cannot be rewritten; use an interactive rebase instead.");
+    }
+
+    const later = (await runGit(repoPath, ["rev-list", "--reverse", `${fullSha}..HEAD`])).split("\n").filter(line => line.trim());
+    let parent = await recreateCommit(repoPath, fullSha, undefined, message);
+    for (const commit of later) {
+        parent = await recreateCommit(repoPath, commit, parent);
+    }
+    // Fails if HEAD moved in the meantime instead of dropping the new commits
+    await runGit(repoPath, ["update-ref", "-m", `reword: ${message.split("\n")[0]}`, "HEAD", parent, head]);
+}
+
+// Creates a copy of `sha` with the same tree and author, optionally on another parent
+// and with another message. Returns the new commit id.
+async function recreateCommit(repoPath: string, sha: string, newParent?: string, newMessage?: string): Promise<string> {
+    const [parents, authorName, authorEmail, authorDate, originalMessage] =
+        (await runGit(repoPath, ["log", "-1", "--format=%P%x00%an%x00%ae%x00%ad%x00%B", "--date=raw", sha])).split("\0");
+    const parentArgs = newParent ? ["-p", newParent] : parents.trim() ? parents.trim().split(" ").flatMap(p => ["-p", p]) : [];
+    const output = await runGit(repoPath, ["commit-tree", `${sha}^{tree}`, ...parentArgs], {
+        env: { GIT_AUTHOR_NAME: authorName, GIT_AUTHOR_EMAIL: authorEmail, GIT_AUTHOR_DATE: authorDate },
+        // The message goes through stdin so it is stored exactly as given
+        input: newMessage !== undefined ? `${newMessage.trim()}\n` : originalMessage.replace(/\n+$/, "\n"),
+    });
+    return output.trim();
+}
+
+// --- Splitting Commits ---
+// The staged diff in a form `git apply` accepts whatever the user's diff settings are
+// (prefixes, external diff tools), including binary files.
+export async function getStagedPatch(repoPath: string): Promise<string> {
+    return runGit(repoPath, ["diff", "--cached", "--binary", "--no-color", "--no-ext-diff", "--src-prefix=a/", "--dst-prefix=b/"]);
+}
+
+// Commits the staged changes as several commits: the index is reset to HEAD, and each
+// patch is staged and committed in turn. Staged changes left out of every patch stay
+// staged afterwards. If any step fails, the branch and the index are restored to where
+// they were and the error is rethrown. The working tree is never touched.
+export async function commitInGroups(repoPath: string, commits: { message: string, patch: string }[]): Promise<string[]> {
+    const originalHead = await hasHead(repoPath) ? (await runGit(repoPath, ["rev-parse", "HEAD"])).trim() : undefined;
+    const originalTree = (await runGit(repoPath, ["write-tree"])).trim();
+    const summaries: string[] = [];
+    try {
+        await runGit(repoPath, originalHead ? ["read-tree", "HEAD"] : ["read-tree", "--empty"]);
+        for (const commit of commits) {
+            await runGit(repoPath, ["apply", "--cached", "--recount", "-"], { input: commit.patch });
+            summaries.push(await commitStaged(repoPath, commit.message));
+        }
+        await runGit(repoPath, ["read-tree", originalTree]);
+        return summaries;
+    } catch (error) {
+        console.error("Commit split failed, restoring the branch and the index:", error);
+        try {
+            await runGit(repoPath, originalHead ? ["update-ref", "HEAD", originalHead] : ["update-ref", "-d", "HEAD"]);
+            await runGit(repoPath, ["read-tree", originalTree]);
+        } catch (restoreError) {
+            console.error("Failed to restore the index:", restoreError);
+        }
+        throw error;
+    }
+}
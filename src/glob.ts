@@ -0,0 +1,49 @@
+// src/glob.ts
+
+// Converts a glob to a regular expression matching repository-relative paths.
+// Supports "*" (within one path segment), "?" and "**" (any number of segments).
+export function globToRegExp(glob: string): RegExp {
+    let source = "";
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            // "**/" also matches no directory at all, so "**/.env" matches ".env"
+            if (glob[i + 2] === "/") {
+                source += "(?:.*/)?";
+                i += 2;
+            } else {
+                source += ".*";
+                i++;
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// A glob without a slash matches the file name in any directory and a trailing slash
+// matches everything below a directory, like in .gitignore.
+export function matchesGlob(filePath: string, glob: string): boolean {
+    const normalizedPath = filePath.replace(/\\/g, "/").replace(/^\.?\//, "");
+    let normalizedGlob = glob.trim().replace(/\\/g, "/").replace(/^\.?\//, "");
+    if (!normalizedGlob) {
+        return false;
+    }
+    if (normalizedGlob.endsWith("/")) {
+        const directory = normalizedGlob.slice(0, -1);
+        normalizedGlob = directory.includes("/") ? `${directory}/**` : `**/${directory}/**`;
+    }
+    if (!normalizedGlob.includes("/")) {
+        return globToRegExp(normalizedGlob).test(normalizedPath.substring(normalizedPath.lastIndexOf("/") + 1));
+    }
+    return globToRegExp(normalizedGlob).test(normalizedPath);
+}
+
+export function matchesAnyGlob(filePath: string, globs: string[]): boolean {
+    return globs.some(glob => matchesGlob(filePath, glob));
+}
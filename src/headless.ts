@@ -0,0 +1,134 @@
+// src/headless.ts
+import { GenerationParameters, ProviderId, getProviderDescriptor } from "./providers";
+import { getDefaultPrompt } from "./templates";
+import { ActiveProviderSettings, ModelFailure, describeFallback, generateCommitMessage, generateConventionalCommitMessage } from "./generator";
+import { RetrySettings } from "./retry";
+import { ConventionalCommitRules } from "./conventionalCommits";
+import { DEFAULT_IGNORED_FILES, applyExclusions, readIgnoreFile } from "./exclusions";
+import { RedactionRules, describeRedactions, redactDiff } from "./redaction";
+import { DiffSource, describeDiffSource, getDiff, getNumstat } from "./git";
+import { buildRepositoryContextPrompt, readRepositoryContext } from "./repoContext";
+import { TicketSettings, extractTicketId, insertTicketId } from "./tickets";
+
+// --- Headless Generation ---
+// Generation outside of VS Code (the commit hook and the command line). The settings are
+// a snapshot of the extension settings for one repository, already resolved, so this
+// module does not depend on the vscode API. API keys never go into the snapshot.
+export interface HeadlessSettings {
+    provider: ProviderId;
+    model: string;
+    baseUrl?: string;
+    fallbackModels?: string[];
+    retry?: RetrySettings;
+    prompt: string;                 // The resolved template, including Conventional Commits instructions
+    maxPromptTokens: number;
+    parameters?: GenerationParameters;  // Including the overrides of the resolved template
+    temperature?: number;               // Overrides the one in `parameters`
+    ignoredFiles: string[];         // From the settings; .commitgenignore is read when generating
+    redaction?: RedactionRules;     // Undefined when redaction is disabled
+    conventional?: { rules: ConventionalCommitRules, maxRepairAttempts: number };
+    recentCommitCount?: number;     // Undefined when repository context is disabled
+    ticket?: TicketSettings & { branchPatterns: string[] };
+    templates?: { [name: string]: string };  // Saved templates by name, for the --template option
+}
+
+export interface HeadlessOptions {
+    apiKey: string;
+    signal?: AbortSignal;
+    onProgress?: (message: string) => void;
+}
+
+// The defaults of the extension settings, for when no snapshot from VS Code is available
+// (e.g. in CI)
+export function getDefaultHeadlessSettings(provider: ProviderId = "gemini"): HeadlessSettings {
+    const descriptor = getProviderDescriptor(provider);
+    return {
+        provider: descriptor.id,
+        model: descriptor.defaultModel,
+        prompt: getDefaultPrompt(),
+        maxPromptTokens: 24000,
+        ignoredFiles: DEFAULT_IGNORED_FILES,
+        redaction: { customPatterns: [], excludedFiles: [], detectHighEntropyStrings: true },
+    };
+}
+
+// Checked in order; the generic variable works for every provider
+export const GENERIC_API_KEY_ENV_VAR = "COMMIT_GEN_API_KEY";
+const API_KEY_ENV_VARS: { [id in ProviderId]: string[] } = {
+    gemini: ["GEMINI_API_KEY", "GOOGLE_API_KEY"],
+    openai: ["OPENAI_API_KEY"],
+    anthropic: ["ANTHROPIC_API_KEY"],
+    ollama: [],
+};
+
+export function getApiKeyFromEnv(provider: ProviderId, env: NodeJS.ProcessEnv = process.env): string | undefined {
+    for (const name of [GENERIC_API_KEY_ENV_VAR, ...API_KEY_ENV_VARS[provider]]) {
+        if (env[name]) {
+            return env[name];
+        }
+    }
+    return undefined;
+}
+
+export function getApiKeyEnvVars(provider: ProviderId): string[] {
+    return [GENERIC_API_KEY_ENV_VAR, ...API_KEY_ENV_VARS[provider]];
+}
+
+// Runs the same steps as the generate commands: diff, exclusions, redaction (without
+// the confirmation, which needs a UI), repository context, generation and the ticket
+// key. Returns undefined when the source has no changes.
+export async function generateHeadless(repoPath: string, source: DiffSource, settings: HeadlessSettings, options: HeadlessOptions): Promise<string | undefined> {
+    const { onProgress, signal } = options;
+    const descriptor = getProviderDescriptor(settings.provider);
+
+    onProgress?.(`Getting ${describeDiffSource(source)}...`);
+    const diff = await getDiff(repoPath, source);
+    if (diff === "") {
+        return undefined;
+    }
+
+    const exclusions = applyExclusions(diff, await getNumstat(repoPath, source), [...settings.ignoredFiles, ...readIgnoreFile(repoPath)]);
+    let diffToSend = exclusions.diff;
+    if (settings.redaction) {
+        const result = redactDiff(diffToSend, settings.redaction);
+        describeRedactions(result).forEach(line => onProgress?.(`Redacted ${line}`));
+        diffToSend = result.diff;
+    }
+
+    let prompt = settings.prompt;
+    let ticketId: string | undefined;
+    if (settings.recentCommitCount !== undefined || (settings.ticket && settings.ticket.placement !== "none")) {
+        const context = await readRepositoryContext(repoPath, settings.recentCommitCount ?? 0, source.kind === "commit" ? source.sha : undefined);
+        ticketId = context.branch ? extractTicketId(context.branch, settings.ticket?.branchPatterns).ticketId : undefined;
+        if (settings.recentCommitCount !== undefined) {
+            const contextPrompt = buildRepositoryContextPrompt({ ...context, ticketId });
+            prompt = contextPrompt ? `${prompt}\n\n${contextPrompt}` : prompt;
+        }
+    }
+
+    const providerSettings: ActiveProviderSettings = {
+        descriptor,
+        model: settings.model,
+        apiKey: options.apiKey,
+        baseUrl: settings.baseUrl,
+        fallbackModels: settings.fallbackModels,
+        retry: settings.retry,
+    };
+    const generationOptions = {
+        providerSettings,
+        prompt,
+        diff: diffToSend,
+        maxPromptTokens: settings.maxPromptTokens,
+        parameters: settings.parameters,
+        temperature: settings.temperature,
+        signal,
+        onProgress: (message: string) => onProgress?.(message),
+        onFallback: (model: string, failures: ModelFailure[]) => onProgress?.(describeFallback(model, failures)),
+    };
+    onProgress?.(`Generating commit message with ${descriptor.displayName} (${settings.model})...`);
+    const message = settings.conventional
+        ? (await generateConventionalCommitMessage({ ...generationOptions, ...settings.conventional })).message
+        : (await generateCommitMessage(generationOptions)).trim();
+
+    return ticketId && settings.ticket ? insertTicketId(message, ticketId, settings.ticket) : message;
+}
@@ -0,0 +1,117 @@
+// src/history.ts
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+
+// --- History Types ---
+export interface HistoryEntry {
+    id: string;
+    message: string;
+    repoPath: string;
+    repoName?: string;
+    provider?: string;
+    model?: string;
+    templateName?: string;
+    timestamp: number;
+    committed: boolean;
+}
+
+const HISTORY_STATE_KEY = "gitDiffCommitGenerator.commitHistory";
+
+function normalizeMessage(message: string): string {
+    return message.trim().replace(/\r\n/g, "\n").replace(/\s+$/gm, "");
+}
+
+// Generated commit messages, newest first, kept in globalState so they survive reloads
+// and are shared between workspaces. Entries remember which repository they were
+// generated for.
+export class CommitHistoryStore {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly _state: vscode.Memento, private readonly _getMaxSize: () => number) {}
+
+    getEntries(repoPath?: string): HistoryEntry[] {
+        const entries = this._state.get<HistoryEntry[]>(HISTORY_STATE_KEY) || [];
+        return repoPath ? entries.filter(e => e.repoPath === repoPath) : entries;
+    }
+
+    async add(entry: Omit<HistoryEntry, "id" | "timestamp" | "committed">): Promise<HistoryEntry> {
+        const added: HistoryEntry = {
+            ...entry,
+            id: `history_${crypto.randomUUID()}`,
+            timestamp: Date.now(),
+            committed: false,
+        };
+        // Generating the same message again for the same repo moves it back to the top
+        const others = this.getEntries().filter(e =>
+            !(e.repoPath === entry.repoPath && normalizeMessage(e.message) === normalizeMessage(entry.message)));
+        await this._save([added, ...others]);
+        return added;
+    }
+
+    // Marks the newest uncommitted entry of the repository matching `commitMessage`.
+    async markCommitted(repoPath: string, commitMessage: string): Promise<boolean> {
+        const entries = this.getEntries();
+        const match = entries.find(e =>
+            !e.committed && e.repoPath === repoPath && normalizeMessage(e.message) === normalizeMessage(commitMessage));
+        if (!match) {
+            return false;
+        }
+        match.committed = true;
+        await this._save(entries);
+        return true;
+    }
+
+    async clear(): Promise<void> {
+        await this._save([]);
+    }
+
+    private async _save(entries: HistoryEntry[]): Promise<void> {
+        const maxSize = Math.max(1, this._getMaxSize());
+        await this._state.update(HISTORY_STATE_KEY, entries.slice(0, maxSize));
+        this._onDidChange.fire();
+    }
+}
+
+// Watches the repositories known to the built-in Git extension and marks history
+// entries as committed when a new HEAD commit carries their message.
+export function watchForCommits(store: CommitHistoryStore): vscode.Disposable {
+    const disposables: vscode.Disposable[] = [];
+    const lastHeads = new Map<string, string | undefined>();
+
+    const watchRepository = (repo: any) => {
+        const repoPath: string = repo.rootUri.fsPath;
+        lastHeads.set(repoPath, repo.state.HEAD?.commit);
+        disposables.push(repo.state.onDidChange(async () => {
+            const head: string | undefined = repo.state.HEAD?.commit;
+            if (!head || head === lastHeads.get(repoPath)) {
+                return;
+            }
+            lastHeads.set(repoPath, head);
+            try {
+                const commit = await repo.getCommit(head);
+                if (await store.markCommitted(repoPath, commit.message)) {
+                    console.log(`History entry for ${repoPath} marked as committed (${head}).`);
+                }
+            } catch (error) {
+                console.error("Failed to read HEAD commit for history:", error);
+            }
+        }));
+    };
+
+    const gitExtension = vscode.extensions.getExtension("vscode.git");
+    if (gitExtension) {
+        Promise.resolve(gitExtension.isActive ? gitExtension.exports : gitExtension.activate()).then(exports => {
+            const api = exports?.getAPI(1);
+            if (!api) {
+                return;
+            }
+            api.repositories.forEach(watchRepository);
+            disposables.push(api.onDidOpenRepository(watchRepository));
+        }, error => {
+            console.error("Failed to access the Git extension for history tracking:", error);
+        });
+    }
+
+    return new vscode.Disposable(() => disposables.forEach(d => d.dispose()));
+}
@@ -0,0 +1,122 @@
+// src/hook.ts
+import * as fs from "fs";
+import * as path from "path";
+import { runGit } from "./git";
+
+// --- prepare-commit-msg Hook ---
+// An opt-in hook that fills in the commit message when committing from a terminal. The
+// hook runs out/cli.js, which reads a snapshot of the extension settings from the git
+// directory (see headless.ts).
+export const HOOK_NAME = "prepare-commit-msg";
+export const HOOK_SETTINGS_FILE = "commit-generator-hook.json";
+const HOOK_MARKER = "# Installed by Git Diff Commit Generator.";
+
+// Everything below this line is removed by git (`git commit -v`)
+const SCISSORS_LINE = "------------------------ >8 ------------------------";
+
+// Resolves a path inside the git directory; honors core.hooksPath and worktrees
+async function getGitPath(repoPath: string, name: string): Promise<string> {
+    return path.resolve(repoPath, (await runGit(repoPath, ["rev-parse", "--git-path", name])).trim());
+}
+
+export function getHookPath(repoPath: string): Promise<string> {
+    return getGitPath(repoPath, `hooks/${HOOK_NAME}`);
+}
+
+export function getHookSettingsPath(repoPath: string): Promise<string> {
+    return getGitPath(repoPath, HOOK_SETTINGS_FILE);
+}
+
+function shellQuote(value: string): string {
+    // Git for Windows runs hooks with sh, which expects forward slashes
+    return `'${value.replace(/\\/g, "/").replace(/'/g, "'\\''")}'`;
+}
+
+// Prefers `node` from the PATH and falls back to the editor's own runtime. The hook
+// always exits with 0: a failed generation must never block a commit.
+export function buildHookScript(cliPath: string, editorExecPath: string): string {
+    const args = `${shellQuote(cliPath)} hook ${HOOK_NAME} "$@"`;
+    return [
+        "#!/bin/sh",
+        `${HOOK_MARKER} Delete this file to remove it.`,
+        "# Set COMMIT_GEN_SKIP=1 to commit without generating a message.",
+        "if command -v node >/dev/null 2>&1; then",
+        `    node ${args} || true`,
+        "else",
+        `    ELECTRON_RUN_AS_NODE=1 ${shellQuote(editorExecPath)} ${args} || true`,
+        "fi",
+        "exit 0",
+        "",
+    ].join("\n");
+}
+
+async function readHook(repoPath: string): Promise<string | undefined> {
+    try {
+        return fs.readFileSync(await getHookPath(repoPath), "utf8");
+    } catch {
+        return undefined;
+    }
+}
+
+export async function isHookInstalled(repoPath: string): Promise<boolean> {
+    return (await readHook(repoPath))?.includes(HOOK_MARKER) ?? false;
+}
+
+// Writes (or rewrites) the hook and its settings. A hook that was not installed by this
+// extension is left alone.
+export async function installHook(repoPath: string, script: string, settings: object): Promise<string> {
+    const hookPath = await getHookPath(repoPath);
+    const existing = await readHook(repoPath);
+    if (existing !== undefined && !existing.includes(HOOK_MARKER)) {
+        throw new Error(`A ${HOOK_NAME} hook already exists at ${hookPath}. Remove it first, or call out/cli.js from it.`);
+    }
+    const hooksDir = path.dirname(hookPath);
+    if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+        // e.g. core.hooksPath=/dev/null, which turns hooks off
+        throw new Error(`Git hooks are disabled in this repository (hooks path: ${hooksDir}).`);
+    }
+    fs.mkdirSync(hooksDir, { recursive: true });
+    fs.writeFileSync(hookPath, script, { mode: 0o755 });
+    fs.chmodSync(hookPath, 0o755); // The mode above only applies to new files
+    fs.writeFileSync(await getHookSettingsPath(repoPath), JSON.stringify(settings, null, 2) + "\n");
+    return hookPath;
+}
+
+export async function uninstallHook(repoPath: string): Promise<void> {
+    if (!await isHookInstalled(repoPath)) {
+        throw new Error(`The ${HOOK_NAME} hook of this repository was not installed by this extension.`);
+    }
+    fs.rmSync(await getHookPath(repoPath), { force: true });
+    fs.rmSync(await getHookSettingsPath(repoPath), { force: true });
+}
+
+// Git passes the source of the message as the second hook argument: "message" (-m, -F),
+// "template" (-t, commit.template), "merge", "squash" or "commit" (-c, -C, --amend).
+// Only messages that are still empty are filled in.
+export function shouldFillMessage(source: string | undefined, content: string): boolean {
+    if (source && source !== "template") {
+        return false;
+    }
+    return !hasMessageText(content);
+}
+
+// True when the file has anything besides comments and blank lines
+export function hasMessageText(content: string): boolean {
+    for (const line of content.split(/\r?\n/)) {
+        if (line.includes(SCISSORS_LINE)) {
+            break;
+        }
+        if (line.trim() && !line.startsWith("#")) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// Puts the message above the comments git wrote into the file
+export function fillMessage(content: string, message: string): string {
+    if (!content.trim()) {
+        return `${message.trim()}\n`;
+    }
+    return `${message.trim()}\n${content.startsWith("\n") ? "" : "\n"}${content}`;
+}
@@ -0,0 +1,84 @@
+// src/models.ts
+import * as crypto from "crypto";
+import { ModelInfo } from "./providers";
+import { CacheState } from "./cache";
+
+// --- Model Discovery Cache ---
+// The models a provider offers, as last listed by its API. Lists are kept per provider,
+// server and API key (different keys can see different models); only a hash of the key
+// is stored.
+export interface CachedModelList {
+    models: ModelInfo[];
+    stale: boolean;         // Older than the TTL; still shown until a refresh succeeds
+}
+
+interface ModelListEntry {
+    key: string;
+    models: ModelInfo[];
+    timestamp: number;
+}
+
+export const MODEL_LIST_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_MODEL_LISTS = 20;
+const MODEL_LIST_STATE_KEY = "gitDiffCommitGenerator.modelLists";
+
+export function getModelListKey(provider: string, baseUrl: string | undefined, apiKey: string): string {
+    return crypto.createHash("sha256").update(JSON.stringify([provider, baseUrl ?? "", apiKey])).digest("hex");
+}
+
+export class ModelListCache {
+    constructor(
+        private readonly _state: CacheState,
+        private readonly _ttlMs: number = MODEL_LIST_TTL_MS,
+        private readonly _now: () => number = Date.now
+    ) {}
+
+    get(key: string): CachedModelList | undefined {
+        const entry = this._getEntries().find(e => e.key === key);
+        return entry && { models: entry.models, stale: this._now() - entry.timestamp >= this._ttlMs };
+    }
+
+    async set(key: string, models: ModelInfo[]): Promise<void> {
+        const others = this._getEntries().filter(e => e.key !== key);
+        await this._state.update(MODEL_LIST_STATE_KEY, [{ key, models, timestamp: this._now() }, ...others].slice(0, MAX_MODEL_LISTS));
+    }
+
+    // Every cached model of every provider, e.g. for the prices some lists include
+    getAllModels(): ModelInfo[] {
+        return this._getEntries().flatMap(e => e.models);
+    }
+
+    private _getEntries(): ModelListEntry[] {
+        return this._state.get<ModelListEntry[]>(MODEL_LIST_STATE_KEY) || [];
+    }
+}
+
+// --- Model Details ---
+// e.g. "1M context · $0.10 / $0.40 per 1M tokens"; empty when the provider reported nothing
+export function describeModel(model: ModelInfo): string {
+    const parts: string[] = [];
+    if (model.contextWindow) {
+        parts.push(`${formatTokenCount(model.contextWindow)} context`);
+    }
+    if (model.pricing) {
+        parts.push(model.pricing.input === 0 && model.pricing.output === 0
+            ? "free"
+            : `${formatPrice(model.pricing.input)} / ${formatPrice(model.pricing.output)} per 1M tokens`);
+    }
+    return parts.join(" · ");
+}
+
+// 1048576 -> "1M", 128000 -> "128K"
+export function formatTokenCount(tokens: number): string {
+    if (tokens >= 1000000) {
+        return `${Math.round(tokens / 100000) / 10}M`.replace(".0M", "M");
+    }
+    if (tokens >= 1000) {
+        return `${Math.round(tokens / 1000)}K`;
+    }
+    return String(tokens);
+}
+
+function formatPrice(dollars: number): string {
+    return `$${dollars < 0.01 ? dollars.toPrecision(2) : dollars.toFixed(2)}`;
+}
@@ -0,0 +1,678 @@
+// src/providers.ts
+import axios from "axios";
+import { Readable } from "stream";
+import { StringDecoder } from "string_decoder";
+import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai";
+
+// --- Provider Types ---
+export type ProviderId = "gemini" | "openai" | "ollama" | "anthropic";
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    // Only known for models listed by the provider, and only where the API reports it
+    contextWindow?: number;     // Input tokens
+    maxOutputTokens?: number;
+    pricing?: ModelPricing;
+}
+
+// US dollars per million tokens
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+export interface ProviderDescriptor {
+    id: ProviderId;
+    displayName: string;
+    requiresApiKey: boolean;
+    defaultBaseUrl?: string;
+    defaultModel: string;
+    models: ModelInfo[];
+}
+
+export interface ProviderOptions {
+    apiKey?: string;
+    baseUrl?: string;
+}
+
+// Gemini's harm categories and block thresholds. Other providers have no equivalent
+// and ignore them. "providerDefault" leaves the category out of the request.
+export type SafetyCategory = "harassment" | "hateSpeech" | "sexuallyExplicit" | "dangerousContent";
+export type SafetyThreshold = "providerDefault" | "blockNone" | "blockOnlyHigh" | "blockMediumAndAbove" | "blockLowAndAbove";
+
+export const SAFETY_CATEGORIES: SafetyCategory[] = ["harassment", "hateSpeech", "sexuallyExplicit", "dangerousContent"];
+export const SAFETY_THRESHOLDS: SafetyThreshold[] = ["providerDefault", "blockNone", "blockOnlyHigh", "blockMediumAndAbove", "blockLowAndAbove"];
+
+// Sampling and output options. Anything left undefined uses the provider default.
+export interface GenerationParameters {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    systemInstruction?: string;
+    safety?: { [category in SafetyCategory]?: SafetyThreshold };
+}
+
+export interface GenerationRequest extends GenerationParameters {
+    model: string;
+    prompt: string;
+    // Aborts the underlying HTTP request
+    signal?: AbortSignal;
+    // When set, the response is streamed and each piece of text is passed here as it arrives
+    onToken?: (text: string) => void;
+    // Called once with the token counts the provider reported; not called when it reported none
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+}
+
+export interface LlmProvider {
+    readonly descriptor: ProviderDescriptor;
+    generate(request: GenerationRequest): Promise<string>;
+    // The models available with the configured key (or server), sorted by ID
+    listModels(signal?: AbortSignal): Promise<ModelInfo[]>;
+}
+
+// --- Errors ---
+// Every provider fails with a GenerationError, so callers can decide what to do about a
+// failure (retry, try another model, ask for a new API key) without parsing messages.
+export type GenerationErrorKind =
+    | "auth"        // Missing or invalid API key, no permission
+    | "quota"       // Rate limited or out of quota (HTTP 429)
+    | "server"      // HTTP 5xx, overloaded
+    | "timeout"     // No response in time
+    | "safety"      // The provider blocked the prompt or the response
+    | "network"     // The server could not be reached
+    | "cancelled"   // Aborted by the user
+    | "request";    // Anything else, e.g. an unknown model or a prompt that is too long
+
+const TRANSIENT_ERROR_KINDS: GenerationErrorKind[] = ["quota", "server", "timeout", "network"];
+const NETWORK_ERROR_CODES = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH", "EPIPE"];
+
+export class GenerationError extends Error {
+    constructor(
+        public readonly kind: GenerationErrorKind,
+        message: string,
+        public readonly status?: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = "GenerationError";
+    }
+
+    // Worth sending the same request again after a while
+    get transient(): boolean {
+        return TRANSIENT_ERROR_KINDS.includes(this.kind);
+    }
+}
+
+// Classifies errors from axios, the Gemini SDK and fetch by status code, error code and
+// (as a last resort) the message.
+export function classifyError(error: any): GenerationError {
+    if (error instanceof GenerationError) {
+        return error;
+    }
+    const message: string = error?.message || String(error);
+    if (axios.isCancel(error) || error?.name === "AbortError") {
+        return new GenerationError("cancelled", "Request cancelled.");
+    }
+    const status: number | undefined = error?.response?.status ?? (typeof error?.status === "number" ? error.status : undefined);
+    const retryAfterSeconds = Number(error?.response?.headers?.["retry-after"]);
+    const retryAfterMs = retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined;
+    const code: string | undefined = error?.code ?? error?.cause?.code;
+
+    let kind: GenerationErrorKind = "request";
+    if (status === 401 || status === 403 || /API key not valid|invalid.{0,10}api.?key|PERMISSION_DENIED/i.test(message)) {
+        kind = "auth";
+    } else if (status === 429 || /quota|rate.?limit|RESOURCE_EXHAUSTED/i.test(message)) {
+        kind = "quota";
+    } else if (status === 408 || code === "ETIMEDOUT" || code === "ECONNABORTED") {
+        kind = "timeout";
+    } else if ((status !== undefined && status >= 500) || /overloaded|UNAVAILABLE/i.test(message)) {
+        kind = "server";
+    } else if ((code && NETWORK_ERROR_CODES.includes(code)) || /fetch failed|network error|socket hang up/i.test(message)) {
+        kind = "network";
+    } else if (/blocked|safety/i.test(message)) {
+        kind = "safety";
+    }
+    return new GenerationError(kind, message, status, retryAfterMs);
+}
+
+// --- Provider Registry ---
+export const PROVIDERS: ProviderDescriptor[] = [
+    {
+        id: "gemini",
+        displayName: "Gemini",
+        requiresApiKey: true,
+        defaultModel: "gemini-2.0-flash",
+        models: [
+            { id: "gemini-2.0-flash", label: "Gemini 2.0 Flash" },
+            { id: "gemini-2.0-flash-lite", label: "Gemini 2.0 Flash Lite" },
+            { id: "gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+            { id: "gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+        ],
+    },
+    {
+        id: "openai",
+        displayName: "OpenAI-compatible",
+        requiresApiKey: true,
+        defaultBaseUrl: "https://api.openai.com/v1",
+        defaultModel: "gpt-4o-mini",
+        models: [
+            { id: "gpt-4o-mini", label: "GPT-4o mini" },
+            { id: "gpt-4o", label: "GPT-4o" },
+            { id: "gpt-4.1-mini", label: "GPT-4.1 mini" },
+            { id: "gpt-4.1", label: "GPT-4.1" },
+        ],
+    },
+    {
+        id: "ollama",
+        displayName: "Ollama",
+        requiresApiKey: false,
+        defaultBaseUrl: "http://localhost:11434",
+        defaultModel: "llama3.2",
+        models: [
+            { id: "llama3.2", label: "Llama 3.2" },
+            { id: "qwen2.5-coder", label: "Qwen 2.5 Coder" },
+            { id: "mistral", label: "Mistral" },
+        ],
+    },
+    {
+        id: "anthropic",
+        displayName: "Anthropic",
+        requiresApiKey: true,
+        defaultBaseUrl: "https://api.anthropic.com",
+        defaultModel: "claude-3-5-haiku-latest",
+        models: [
+            { id: "claude-3-5-haiku-latest", label: "Claude 3.5 Haiku" },
+            { id: "claude-3-7-sonnet-latest", label: "Claude 3.7 Sonnet" },
+            { id: "claude-sonnet-4-0", label: "Claude Sonnet 4" },
+        ],
+    },
+];
+
+export function getProviderDescriptor(id: string | undefined): ProviderDescriptor {
+    return PROVIDERS.find(p => p.id === id) || PROVIDERS[0];
+}
+
+// Picks the model to use for a provider. A model that belongs to another provider's
+// list (e.g. a Gemini model left over after switching to Ollama) falls back to the
+// provider default; anything else is treated as a custom model ID and passed through.
+export function resolveModel(descriptor: ProviderDescriptor, selectedModel: string | undefined): string {
+    if (!selectedModel) {
+        return descriptor.defaultModel;
+    }
+    const ownedByOther = PROVIDERS.some(p => p.id !== descriptor.id && p.models.some(m => m.id === selectedModel));
+    return ownedByOther ? descriptor.defaultModel : selectedModel;
+}
+
+// Values set in `override` (e.g. from a template) replace those of `base`; safety
+// thresholds are merged per category
+export function mergeGenerationParameters(base: GenerationParameters, override: GenerationParameters | undefined): GenerationParameters {
+    if (!override) {
+        return base;
+    }
+    const defined = Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined && value !== null));
+    return { ...base, ...defined, safety: { ...base.safety, ...override.safety } };
+}
+
+export function createProvider(id: ProviderId, options: ProviderOptions): LlmProvider {
+    const descriptor = getProviderDescriptor(id);
+    switch (descriptor.id) {
+        case "gemini":
+            return new GeminiProvider(descriptor, options);
+        case "openai":
+            return new OpenAICompatibleProvider(descriptor, options);
+        case "ollama":
+            return new OllamaProvider(descriptor, options);
+        case "anthropic":
+            return new AnthropicProvider(descriptor, options);
+    }
+}
+
+// --- Gemini ---
+class GeminiProvider implements LlmProvider {
+    constructor(public readonly descriptor: ProviderDescriptor, private readonly _options: ProviderOptions) {}
+
+    async generate(request: GenerationRequest): Promise<string> {
+        try {
+            return await this._generate(request);
+        } catch (error: any) {
+            throw classifyError(error);
+        }
+    }
+
+    // The SDK has no model listing, so the REST API is asked directly. Embedding and
+    // other models that cannot generate text are left out.
+    async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+        const models: ModelInfo[] = [];
+        let pageToken: string | undefined;
+        try {
+            do {
+                const response = await axios.get(`${GEMINI_API_URL}/models`, {
+                    headers: { "x-goog-api-key": this._options.apiKey || "" },
+                    params: { pageSize: 1000, pageToken },
+                    signal,
+                });
+                for (const model of response.data?.models || []) {
+                    if (model.supportedGenerationMethods?.includes("generateContent")) {
+                        models.push({
+                            id: String(model.name).replace(/^models\//, ""),
+                            label: model.displayName || model.name,
+                            contextWindow: model.inputTokenLimit,
+                            maxOutputTokens: model.outputTokenLimit,
+                        });
+                    }
+                }
+                pageToken = response.data?.nextPageToken || undefined;
+            } while (pageToken);
+        } catch (error: any) {
+            throw await toHttpError(error);
+        }
+        return sortModels(models);
+    }
+
+    private async _generate(request: GenerationRequest): Promise<string> {
+        console.log("Initializing Gemini AI client...");
+        const genAI = new GoogleGenerativeAI(this._options.apiKey || "");
+        const model = genAI.getGenerativeModel({ model: request.model, systemInstruction: request.systemInstruction || undefined });
+
+        const contentRequest = {
+            contents: [{ role: "user", parts: [{ text: request.prompt }] }],
+            safetySettings: getGeminiSafetySettings(request.safety),
+            generationConfig: {
+                temperature: request.temperature,
+                topP: request.topP,
+                maxOutputTokens: request.maxOutputTokens,
+                stopSequences: request.stopSequences?.length ? request.stopSequences : undefined,
+            },
+        };
+
+        if (request.onToken) {
+            const streamResult = await model.generateContentStream(contentRequest, { signal: request.signal });
+            let text = "";
+            for await (const chunk of streamResult.stream) {
+                const piece = chunk.candidates?.[0]?.content ? chunk.text() : "";
+                if (piece) {
+                    text += piece;
+                    request.onToken(piece);
+                }
+            }
+            const response = await streamResult.response;
+            checkGeminiBlocked(response);
+            reportUsage(request, response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
+            return text;
+        }
+
+        const result = await model.generateContent(contentRequest, { signal: request.signal });
+        const response = result.response;
+        checkGeminiBlocked(response);
+        reportUsage(request, response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
+        return response.text();
+    }
+}
+
+const GEMINI_HARM_CATEGORIES: { [category in SafetyCategory]: HarmCategory } = {
+    harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+const GEMINI_BLOCK_THRESHOLDS: { [threshold in Exclude<SafetyThreshold, "providerDefault">]: HarmBlockThreshold } = {
+    blockNone: HarmBlockThreshold.BLOCK_NONE,
+    blockOnlyHigh: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    blockMediumAndAbove: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+    blockLowAndAbove: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+// Categories without a threshold block medium and above, as before thresholds were configurable
+export function getGeminiSafetySettings(safety: GenerationParameters["safety"] = {}): Array<{ category: HarmCategory, threshold: HarmBlockThreshold }> {
+    return SAFETY_CATEGORIES.flatMap(category => {
+        const threshold = safety[category] ?? "blockMediumAndAbove";
+        return threshold === "providerDefault" ? [] : [{ category: GEMINI_HARM_CATEGORIES[category], threshold: GEMINI_BLOCK_THRESHOLDS[threshold] }];
+    });
+}
+
+// Throws when Gemini returned no candidate, which is how blocked content shows up
+function checkGeminiBlocked(response: { candidates?: Array<{ content?: unknown }>, promptFeedback?: { blockReason?: string, safetyRatings?: unknown } }) {
+    if (!response.candidates || response.candidates.length === 0 || !response.candidates[0].content) {
+        const blockReason = response.promptFeedback?.blockReason;
+        console.warn(`Gemini response potentially blocked. Reason: ${blockReason || 'N/A'}`);
+        console.warn('Safety Ratings:', response.promptFeedback?.safetyRatings);
+        throw new GenerationError("safety", `Generation failed. The response may have been blocked due to safety settings (Reason: ${blockReason || 'No candidate content'}).`);
+    }
+}
+
+// --- OpenAI-compatible (OpenAI, Azure-style proxies, LM Studio, vLLM, ...) ---
+// OpenAI lists every model of the account, including ones that cannot chat
+const NON_CHAT_MODEL = /(embed|whisper|tts|dall-e|moderation|transcribe|image|davinci|babbage)/i;
+
+class OpenAICompatibleProvider implements LlmProvider {
+    constructor(public readonly descriptor: ProviderDescriptor, private readonly _options: ProviderOptions) {}
+
+    // Some compatible servers (e.g. OpenRouter) also report the context length and the
+    // price per token
+    async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        const headers: Record<string, string> = {};
+        if (this._options.apiKey) {
+            headers["Authorization"] = `Bearer ${this._options.apiKey}`;
+        }
+        try {
+            const response = await axios.get(`${baseUrl}/models`, { headers, signal });
+            const models: any[] = response.data?.data || [];
+            return sortModels(models.filter(model => model?.id && !NON_CHAT_MODEL.test(model.id)).map(model => ({
+                id: model.id,
+                label: model.name || model.id,
+                contextWindow: model.context_length ?? undefined,
+                pricing: toPricePerMillion(model.pricing?.prompt, model.pricing?.completion),
+            })));
+        } catch (error: any) {
+            throw await toHttpError(error);
+        }
+    }
+
+    async generate(request: GenerationRequest): Promise<string> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this._options.apiKey) {
+            headers["Authorization"] = `Bearer ${this._options.apiKey}`;
+        }
+        const body = {
+            model: request.model,
+            messages: buildChatMessages(request),
+            temperature: request.temperature,
+            top_p: request.topP,
+            max_tokens: request.maxOutputTokens,
+            stop: request.stopSequences?.length ? request.stopSequences : undefined,
+        };
+
+        try {
+            if (request.onToken) {
+                const response = await axios.post(`${baseUrl}/chat/completions`, { ...body, stream: true }, {
+                    headers,
+                    signal: request.signal,
+                    responseType: "stream",
+                });
+                // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+                let text = "";
+                let usage: { prompt_tokens?: number, completion_tokens?: number } | undefined;
+                await readLines(response.data, line => {
+                    const data = line.startsWith("data:") ? line.substring(5).trim() : "";
+                    if (!data || data === "[DONE]") {
+                        return;
+                    }
+                    const chunk = JSON.parse(data);
+                    const piece = chunk.choices?.[0]?.delta?.content;
+                    if (piece) {
+                        text += piece;
+                        request.onToken!(piece);
+                    }
+                    // Only servers that send usage with streams unasked (e.g. OpenRouter) report it here
+                    if (chunk.usage) {
+                        usage = chunk.usage;
+                    }
+                });
+                reportUsage(request, usage?.prompt_tokens, usage?.completion_tokens);
+                return text;
+            }
+
+            const response = await axios.post(`${baseUrl}/chat/completions`, body, { headers, signal: request.signal });
+            reportUsage(request, response.data?.usage?.prompt_tokens, response.data?.usage?.completion_tokens);
+            return response.data?.choices?.[0]?.message?.content || "";
+        } catch (error: any) {
+            throw await toHttpError(error);
+        }
+    }
+}
+
+// --- Ollama (local) ---
+class OllamaProvider implements LlmProvider {
+    constructor(public readonly descriptor: ProviderDescriptor, private readonly _options: ProviderOptions) {}
+
+    // The models pulled on the server
+    async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        try {
+            const response = await axios.get(`${baseUrl}/api/tags`, { signal });
+            const models: any[] = response.data?.models || [];
+            return sortModels(models.filter(model => model?.name).map(model => ({
+                id: model.name,
+                label: model.details?.parameter_size ? `${model.name} (${model.details.parameter_size})` : model.name,
+            })));
+        } catch (error: any) {
+            if (error.code === "ECONNREFUSED") {
+                throw new GenerationError("network", `Could not reach Ollama at ${baseUrl}. Is the server running?`);
+            }
+            throw await toHttpError(error);
+        }
+    }
+
+    async generate(request: GenerationRequest): Promise<string> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        const body = {
+            model: request.model,
+            messages: buildChatMessages(request),
+            options: {
+                temperature: request.temperature,
+                top_p: request.topP,
+                num_predict: request.maxOutputTokens,
+                stop: request.stopSequences?.length ? request.stopSequences : undefined,
+            },
+        };
+
+        try {
+            if (request.onToken) {
+                const response = await axios.post(`${baseUrl}/api/chat`, { ...body, stream: true }, {
+                    signal: request.signal,
+                    responseType: "stream",
+                });
+                // Newline-delimited JSON, one message fragment per line; the last one has the token counts
+                let text = "";
+                await readLines(response.data, line => {
+                    const chunk = JSON.parse(line);
+                    const piece = chunk.message?.content;
+                    if (piece) {
+                        text += piece;
+                        request.onToken!(piece);
+                    }
+                    if (chunk.done) {
+                        reportUsage(request, chunk.prompt_eval_count, chunk.eval_count);
+                    }
+                });
+                return text;
+            }
+
+            const response = await axios.post(`${baseUrl}/api/chat`, { ...body, stream: false }, { signal: request.signal });
+            reportUsage(request, response.data?.prompt_eval_count, response.data?.eval_count);
+            return response.data?.message?.content || "";
+        } catch (error: any) {
+            if (error.code === "ECONNREFUSED") {
+                throw new GenerationError("network", `Could not reach Ollama at ${baseUrl}. Is the server running?`);
+            }
+            throw await toHttpError(error);
+        }
+    }
+}
+
+// --- Anthropic ---
+class AnthropicProvider implements LlmProvider {
+    constructor(public readonly descriptor: ProviderDescriptor, private readonly _options: ProviderOptions) {}
+
+    async listModels(signal?: AbortSignal): Promise<ModelInfo[]> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        try {
+            const response = await axios.get(`${baseUrl}/v1/models`, { headers: this._getHeaders(), params: { limit: 1000 }, signal });
+            const models: any[] = response.data?.data || [];
+            return sortModels(models.filter(model => model?.id).map(model => ({ id: model.id, label: model.display_name || model.id })));
+        } catch (error: any) {
+            throw await toHttpError(error);
+        }
+    }
+
+    async generate(request: GenerationRequest): Promise<string> {
+        const baseUrl = trimTrailingSlash(this._options.baseUrl || this.descriptor.defaultBaseUrl!);
+        const headers = this._getHeaders();
+        const body = {
+            model: request.model,
+            max_tokens: request.maxOutputTokens || 1024,
+            system: request.systemInstruction || undefined,
+            messages: [{ role: "user", content: request.prompt }],
+            // Anthropic only accepts temperatures between 0 and 1
+            temperature: request.temperature !== undefined ? Math.min(request.temperature, 1) : undefined,
+            top_p: request.topP,
+            stop_sequences: request.stopSequences?.length ? request.stopSequences : undefined,
+        };
+
+        try {
+            if (request.onToken) {
+                const response = await axios.post(`${baseUrl}/v1/messages`, { ...body, stream: true }, {
+                    headers,
+                    signal: request.signal,
+                    responseType: "stream",
+                });
+                // Server-sent events; text arrives in "content_block_delta" events, the prompt
+                // tokens in "message_start" and the output tokens in "message_delta"
+                let text = "";
+                let promptTokens: number | undefined;
+                let outputTokens: number | undefined;
+                await readLines(response.data, line => {
+                    if (!line.startsWith("data:")) {
+                        return;
+                    }
+                    const event = JSON.parse(line.substring(5).trim());
+                    if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+                        text += event.delta.text;
+                        request.onToken!(event.delta.text);
+                    } else if (event.type === "message_start") {
+                        promptTokens = event.message?.usage?.input_tokens;
+                    } else if (event.type === "message_delta") {
+                        outputTokens = event.usage?.output_tokens ?? outputTokens;
+                    } else if (event.type === "error") {
+                        throw new Error(event.error?.message || "Stream error");
+                    }
+                });
+                reportUsage(request, promptTokens, outputTokens);
+                return text;
+            }
+
+            const response = await axios.post(`${baseUrl}/v1/messages`, body, { headers, signal: request.signal });
+            reportUsage(request, response.data?.usage?.input_tokens, response.data?.usage?.output_tokens);
+            const blocks: Array<{ type: string, text?: string }> = response.data?.content || [];
+            return blocks.filter(b => b.type === "text").map(b => b.text).join("");
+        } catch (error: any) {
+            throw await toHttpError(error);
+        }
+    }
+
+    private _getHeaders(): Record<string, string> {
+        return {
+            "Content-Type": "application/json",
+            "x-api-key": this._options.apiKey || "",
+            "anthropic-version": "2023-06-01",
+        };
+    }
+}
+
+// --- Helpers ---
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+function trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, "");
+}
+
+function reportUsage(request: GenerationRequest, promptTokens: unknown, outputTokens: unknown) {
+    if (typeof promptTokens === "number" && typeof outputTokens === "number") {
+        request.onUsage?.({ promptTokens, outputTokens });
+    }
+}
+
+function sortModels(models: ModelInfo[]): ModelInfo[] {
+    return models.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Listing APIs that report prices do so per token, as strings (e.g. "0.00000015")
+function toPricePerMillion(input: unknown, output: unknown): ModelPricing | undefined {
+    const inputPrice = parseFloat(String(input));
+    const outputPrice = parseFloat(String(output));
+    if (isNaN(inputPrice) || isNaN(outputPrice)) {
+        return undefined;
+    }
+    return { input: Math.round(inputPrice * 1e6 * 1e6) / 1e6, output: Math.round(outputPrice * 1e6 * 1e6) / 1e6 };
+}
+
+// Chat APIs take the system instruction as a message of its own
+function buildChatMessages(request: GenerationRequest): Array<{ role: string, content: string }> {
+    const messages = [{ role: "user", content: request.prompt }];
+    return request.systemInstruction ? [{ role: "system", content: request.systemInstruction }, ...messages] : messages;
+}
+
+// Calls `onLine` for every non-empty line of a streamed response body.
+async function readLines(stream: Readable, onLine: (line: string) => void): Promise<void> {
+    let buffer = "";
+    for await (const chunk of readText(stream)) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+            if (line.trim()) {
+                onLine(line.trim());
+            }
+        }
+    }
+    if (buffer.trim()) {
+        onLine(buffer.trim());
+    }
+}
+
+// Decodes a streamed body as UTF-8. A multi-byte character can be split across network
+// chunks; the decoder holds its first bytes back until the rest arrives.
+async function* readText(stream: Readable): AsyncGenerator<string> {
+    const decoder = new StringDecoder("utf8");
+    for await (const chunk of stream) {
+        yield typeof chunk === "string" ? chunk : decoder.write(chunk);
+    }
+    const rest = decoder.end();
+    if (rest) {
+        yield rest;
+    }
+}
+
+// The error body often says more than the status code (e.g. "API key not valid" with 400)
+async function toHttpError(error: any): Promise<GenerationError> {
+    const classified = classifyError(error);
+    const message = await describeHttpError(error);
+    const kind = classified.kind === "request" ? classifyError(new Error(message)).kind : classified.kind;
+    return new GenerationError(kind, message, classified.status, classified.retryAfterMs);
+}
+
+// Pulls the most useful message out of an axios error. OpenAI and Anthropic nest it
+// under `error.message`, Ollama returns a plain `error` string. Streamed requests carry
+// the error body as a stream, so it is read first.
+async function describeHttpError(error: any): Promise<string> {
+    if (axios.isCancel(error)) {
+        return "Request cancelled.";
+    }
+    let data = error.response?.data;
+    if (data instanceof Readable) {
+        let raw = "";
+        try {
+            for await (const chunk of readText(data)) {
+                raw += chunk;
+            }
+            data = JSON.parse(raw);
+        } catch {
+            data = raw;
+        }
+    }
+    const detail = data?.error?.message || (typeof data?.error === "string" ? data.error : undefined);
+    if (error.response) {
+        return `HTTP ${error.response.status}: ${detail || error.message}`;
+    }
+    return error.message || String(error);
+}
@@ -0,0 +1,57 @@
+// src/pullRequest.ts
+
+// --- Pull Request Types ---
+export interface PullRequestTemplate {
+    name: string;
+    prompt: string;
+}
+
+export interface PullRequestDescription {
+    title: string;
+    body: string;   // Markdown
+}
+
+export const DEFAULT_PULL_REQUEST_TEMPLATE: PullRequestTemplate = {
+    name: "Default",
+    prompt: "Read the commit log and the diff of a branch and write a pull request title and description.\n" +
+        "Respond in exactly this format:\n" +
+        "Title: <a concise pull request title, at most 72 characters>\n" +
+        "\n" +
+        "## Summary\n" +
+        "<one or two short paragraphs: what this pull request does and why>\n" +
+        "\n" +
+        "## Changes\n" +
+        "<a bulleted list of the notable changes>\n" +
+        "\n" +
+        "## Testing\n" +
+        "<how the changes were tested or should be tested; say so if no tests were added or changed>",
+};
+
+// The template text plus the branch context; the diff is appended by the generator.
+export function buildPullRequestPrompt(template: string, branch: string, target: string, commitLog: string): string {
+    return `${template}\n\nThe branch "${branch}" is to be merged into "${target}". ` +
+        `Its commits, oldest first:\n${commitLog || "(no commit messages)"}`;
+}
+
+// Splits the model response into the title and the Markdown body. The title is read
+// from a "Title:" line or a leading "# " heading.
+export function parsePullRequest(text: string): PullRequestDescription {
+    const fenced = text.match(/^\s*```(?:markdown|md)?\s*\n([\s\S]*?)\n```\s*$/);
+    const lines = (fenced ? fenced[1] : text).trim().split("\n");
+
+    const titleLine = lines.findIndex(line => line.trim());
+    const match = titleLine === -1
+        ? null
+        : lines[titleLine].match(/^\s*(?:\*\*)?title(?::\*\*|\*\*:|:)\s*(.+)$/i) || lines[titleLine].match(/^\s*#\s+(.+)$/);
+    if (!match) {
+        return { title: "", body: lines.join("\n").trim() };
+    }
+    return {
+        title: match[1].replace(/^["'`]|["'`]$/g, "").trim(),
+        body: lines.slice(titleLine + 1).join("\n").trim(),
+    };
+}
+
+export function renderPullRequestDocument(description: PullRequestDescription): string {
+    return `# ${description.title}\n\n${description.body}\n`;
+}
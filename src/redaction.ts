@@ -0,0 +1,160 @@
+// src/redaction.ts
+import { parseDiff } from "./diff";
+import { matchesAnyGlob } from "./glob";
+
+// --- Redaction Types ---
+export interface RedactionRules {
+    customPatterns: string[];     // Regular expressions, matched case-sensitively
+    excludedFiles: string[];      // Globs of files whose contents are never sent
+    detectHighEntropyStrings: boolean;
+}
+
+export interface Redaction {
+    path: string;
+    detector: string;
+    count: number;
+}
+
+export interface RedactionResult {
+    diff: string;
+    redactions: Redaction[];
+    excludedFiles: string[];
+    invalidPatterns: string[];
+}
+
+interface Detector {
+    name: string;
+    pattern: RegExp;
+    keepPrefix?: boolean; // Keep the first capture group (e.g. the variable name), hide the rest
+}
+
+const SECRET_NAME = "[A-Za-z0-9_.-]*(?:password|passwd|secret|token|api_?key|access_?key|private_?key)";
+
+const BUILTIN_DETECTORS: Detector[] = [
+    // Private keys span several diff lines, each prefixed with "+", "-" or " "
+    {
+        name: "private key",
+        pattern: /-----BEGIN ([A-Z ]*)PRIVATE KEY-----[\s\S]*?(?:-----END \1PRIVATE KEY-----|$)/g,
+    },
+    { name: "AWS access key", pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[0-9A-Z]{16}\b/g },
+    { name: "AWS secret key", pattern: /(aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}/gi, keepPrefix: true },
+    { name: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+    { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+    { name: "Slack token", pattern: /\bxox[abpors]-[A-Za-z0-9-]{10,}/g },
+    { name: "API key", pattern: /\b(?:sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35})/g },
+    // Values of variables whose name says they are secret: quoted string literals in
+    // code, and unquoted values in .env/YAML style lines (DB_PASSWORD=hunter2)
+    {
+        name: "secret assignment",
+        pattern: new RegExp(`(\\b${SECRET_NAME}["']?\\s*[:=]\\s*["'])[^"'\\s]{6,}(?=["'])`, "gi"),
+        keepPrefix: true,
+    },
+    {
+        name: "secret assignment",
+        pattern: new RegExp(`(^[+\\- ]\\s*(?:export\\s+)?${SECRET_NAME}\\s*[:=]\\s*)(?!["'\\[])[^\\s#]{6,}`, "gim"),
+        keepPrefix: true,
+    },
+];
+
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{24,}/g;
+// Bits per character. Hex strings (commit hashes, checksums) stay at or below 4.
+const HIGH_ENTROPY_THRESHOLD = 4.3;
+
+// Replaces secrets in a unified diff with "[REDACTED:<detector>]" markers and drops the
+// contents of excluded files, so the diff can be sent to a third-party API. Only the
+// diff headers are left untouched.
+export function redactDiff(diff: string, rules: RedactionRules): RedactionResult {
+    const redactions: Redaction[] = [];
+    const excludedFiles: string[] = [];
+    const invalidPatterns: string[] = [];
+
+    const detectors = [...BUILTIN_DETECTORS];
+    for (const source of rules.customPatterns) {
+        try {
+            detectors.push({ name: `custom pattern ${source}`, pattern: new RegExp(source, "g") });
+        } catch {
+            invalidPatterns.push(source);
+        }
+    }
+
+    const files = parseDiff(diff).map(file => {
+        if (matchesAnyGlob(file.path, rules.excludedFiles)) {
+            excludedFiles.push(file.path);
+            return `${file.header}\n[REDACTED: contents of ${file.path} are excluded from generation]`;
+        }
+
+        let body = file.text.substring(file.header.length);
+        const record = (detector: string, count: number) => {
+            if (count > 0) {
+                const existing = redactions.find(r => r.path === file.path && r.detector === detector);
+                if (existing) {
+                    existing.count += count;
+                } else {
+                    redactions.push({ path: file.path, detector, count });
+                }
+            }
+        };
+
+        for (const detector of detectors) {
+            let count = 0;
+            body = body.replace(detector.pattern, (match: string, prefix: unknown) => {
+                if (!match) {
+                    return match; // Custom patterns that can match the empty string
+                }
+                count++;
+                return `${detector.keepPrefix && typeof prefix === "string" ? prefix : ""}[REDACTED:${detector.name}]`;
+            });
+            record(detector.name, count);
+        }
+
+        if (rules.detectHighEntropyStrings) {
+            let count = 0;
+            body = body.replace(HIGH_ENTROPY_CANDIDATE, match => {
+                if (!isHighEntropy(match)) {
+                    return match;
+                }
+                count++;
+                return "[REDACTED:high-entropy string]";
+            });
+            record("high-entropy string", count);
+        }
+
+        return file.header + body;
+    });
+
+    return {
+        diff: files.join("\n") + (files.length > 0 && diff.endsWith("\n") ? "\n" : ""),
+        redactions,
+        excludedFiles,
+        invalidPatterns,
+    };
+}
+
+// Shannon entropy in bits per character
+export function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) || 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+function isHighEntropy(candidate: string): boolean {
+    // Identifiers and paths rarely mix digits and both letter cases
+    if (!/[0-9]/.test(candidate) || !/[a-z]/.test(candidate) || !/[A-Z]/.test(candidate)) {
+        return false;
+    }
+    return shannonEntropy(candidate) > HIGH_ENTROPY_THRESHOLD;
+}
+
+export function describeRedactions(result: RedactionResult): string[] {
+    return [
+        ...result.excludedFiles.map(path => `${path}: file contents excluded`),
+        ...result.redactions.map(r => `${r.path}: ${r.count} × ${r.detector}`),
+    ];
+}
@@ -0,0 +1,49 @@
+// src/repoContext.ts
+import { getCurrentBranch, getRecentCommits } from "./git";
+
+// --- Repository Context ---
+// Facts about the repository that help the model match how its history is written.
+export interface RepositoryContext {
+    branch?: string;
+    ticketId?: string;
+    recentSubjects: string[];   // Newest first
+}
+
+// Text appended to the prompt, or "" when there is nothing to add
+export function buildRepositoryContextPrompt(context: RepositoryContext): string {
+    const parts: string[] = [];
+    if (context.recentSubjects.length > 0) {
+        parts.push("Recent commit messages in this repository, newest first. Match their style " +
+            "(language, tense, capitalization, prefixes and length), not their content:\n" +
+            context.recentSubjects.map(subject => `- ${subject}`).join("\n"));
+    }
+    if (context.branch) {
+        parts.push(`The changes are on the branch "${context.branch}".`);
+    }
+    if (context.ticketId) {
+        parts.push(`They belong to the ticket ${context.ticketId}. Reference it the way the recent commit messages do, ` +
+            "or in the subject line if they do not reference tickets.");
+    }
+    return parts.join("\n\n");
+}
+
+// Reads the newest `recentCommitCount` subjects (skipping merges, which say nothing about
+// style, and `excludeSha`, e.g. the commit being reworded) and the current branch.
+// The ticket ID is left to the caller, which knows the configured branch patterns.
+export async function readRepositoryContext(repoPath: string, recentCommitCount: number, excludeSha?: string): Promise<RepositoryContext> {
+    const context: RepositoryContext = { recentSubjects: [], branch: await getCurrentBranch(repoPath) };
+    try {
+        if (recentCommitCount > 0) {
+            // One extra, in case the excluded commit is among them
+            const commits = await getRecentCommits(repoPath, recentCommitCount + 1);
+            context.recentSubjects = commits
+                .filter(commit => commit.sha !== excludeSha && commit.parents.length < 2)
+                .slice(0, recentCommitCount)
+                .map(commit => commit.subject);
+        }
+    } catch (error) {
+        // A new repository has no commits yet; the context is optional
+        console.error("Failed to read repository context:", error);
+    }
+    return context;
+}
@@ -0,0 +1,117 @@
+// src/retry.ts
+import { GenerationError, classifyError } from "./providers";
+
+// --- Retry Settings ---
+export interface RetrySettings {
+    maxRetries: number;       // Retries after the first attempt, for transient errors only
+    timeoutMs: number;        // Per attempt, counted from the last streamed text; 0 waits indefinitely
+    initialDelayMs: number;   // Doubled after every retry
+}
+
+export const DEFAULT_RETRY_SETTINGS: RetrySettings = {
+    maxRetries: 2,
+    timeoutMs: 60000,
+    initialDelayMs: 1000,
+};
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    onRetry?: (error: GenerationError, retry: number, delayMs: number) => void;
+    // Checked before retrying, e.g. false once streamed text was shown
+    canRetry?: () => boolean;
+}
+
+// Exponential backoff with up to 25% jitter, so parallel candidates do not retry in
+// lockstep. A Retry-After from the provider takes precedence.
+export function getRetryDelay(retry: number, settings: RetrySettings, error: GenerationError, random: () => number = Math.random): number {
+    if (error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+    const base = settings.initialDelayMs * 2 ** (retry - 1);
+    return Math.min(Math.round(base * (1 + 0.25 * random())), MAX_RETRY_DELAY_MS);
+}
+
+// Runs `run` with a timeout and retries transient failures. `run` gets a signal that
+// aborts on timeout or cancellation, and a callback that restarts the timeout (for
+// streamed responses, which may take longer than the timeout in total). Failures are
+// always GenerationErrors.
+export async function withRetry<T>(
+    run: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+    settings: RetrySettings,
+    options: RetryOptions = {}
+): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        let error: GenerationError;
+        try {
+            return await runWithTimeout(run, settings.timeoutMs, options.signal);
+        } catch (e) {
+            error = classifyError(e);
+        }
+        if (!error.transient || retry >= settings.maxRetries || options.canRetry?.() === false) {
+            throw error;
+        }
+        const delayMs = getRetryDelay(retry + 1, settings, error);
+        console.warn(`Request failed (${error.kind}), retrying in ${delayMs} ms:`, error.message);
+        options.onRetry?.(error, retry + 1, delayMs);
+        await sleep(delayMs, options.signal);
+    }
+}
+
+async function runWithTimeout<T>(
+    run: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal
+): Promise<T> {
+    if (signal?.aborted) {
+        throw new GenerationError("cancelled", "Request cancelled.");
+    }
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    const keepAlive = () => {
+        if (timeoutMs > 0) {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeoutMs);
+        }
+    };
+    keepAlive();
+    try {
+        return await run(controller.signal, keepAlive);
+    } catch (error) {
+        if (timedOut) {
+            throw new GenerationError("timeout", `No response within ${Math.round(timeoutMs / 1000)} seconds.`);
+        }
+        if (signal?.aborted) {
+            throw new GenerationError("cancelled", "Request cancelled.");
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new GenerationError("cancelled", "Request cancelled."));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new GenerationError("cancelled", "Request cancelled."));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,148 @@
+// src/secrets.ts
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import { ProviderId } from "./providers";
+
+// Settings that held API keys in plain text before keys moved to SecretStorage.
+// Only read during migration.
+export const LEGACY_API_KEY_SETTINGS: { [provider in ProviderId]?: string } = {
+    gemini: "apiKey",
+    openai: "openaiApiKey",
+    anthropic: "anthropicApiKey",
+};
+
+export interface StoredApiKey {
+    id: string;
+    label: string;
+}
+
+interface ProviderKeyRecord {
+    activeId?: string;
+    keys: Array<StoredApiKey & { value: string }>;
+}
+
+// Stores any number of labelled API keys per provider in VS Code's SecretStorage.
+// Each provider's keys live under a single secret as JSON so the active key and the
+// list can be updated together.
+export class ApiKeyStore implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<ProviderId>();
+    public readonly onDidChange = this._onDidChange.event;
+    private readonly _secretsListener: vscode.Disposable;
+
+    constructor(private readonly _secrets: vscode.SecretStorage) {
+        // Keys can also change from another VS Code window sharing the same secret store
+        this._secretsListener = this._secrets.onDidChange(e => {
+            if (e.key.startsWith(SECRET_PREFIX)) {
+                this._onDidChange.fire(e.key.substring(SECRET_PREFIX.length) as ProviderId);
+            }
+        });
+    }
+
+    dispose() {
+        this._secretsListener.dispose();
+        this._onDidChange.dispose();
+    }
+
+    async listKeys(provider: ProviderId): Promise<Array<StoredApiKey & { active: boolean }>> {
+        const record = await this._read(provider);
+        return record.keys.map(k => ({ id: k.id, label: k.label, active: k.id === record.activeId }));
+    }
+
+    async getActiveKey(provider: ProviderId): Promise<(StoredApiKey & { value: string }) | undefined> {
+        const record = await this._read(provider);
+        return record.keys.find(k => k.id === record.activeId) || record.keys[0];
+    }
+
+    async addKey(provider: ProviderId, label: string, value: string): Promise<void> {
+        const record = await this._read(provider);
+        // Migration adds several keys within the same millisecond, so time alone is not unique
+        const id = `key_${crypto.randomUUID()}`;
+        record.keys.push({ id, label, value });
+        record.activeId = id;
+        await this._write(provider, record);
+    }
+
+    async setActiveKey(provider: ProviderId, id: string): Promise<void> {
+        const record = await this._read(provider);
+        if (!record.keys.some(k => k.id === id)) {
+            throw new Error("API key not found.");
+        }
+        record.activeId = id;
+        await this._write(provider, record);
+    }
+
+    async removeKey(provider: ProviderId, id: string): Promise<void> {
+        const record = await this._read(provider);
+        record.keys = record.keys.filter(k => k.id !== id);
+        if (record.activeId === id) {
+            record.activeId = record.keys[0]?.id;
+        }
+        await this._write(provider, record);
+    }
+
+    // Moves keys found in the legacy plain-text settings into secret storage and clears
+    // them from every settings scope they were written to.
+    async migrateFromSettings(config: vscode.WorkspaceConfiguration): Promise<void> {
+        for (const [provider, setting] of Object.entries(LEGACY_API_KEY_SETTINGS) as Array<[ProviderId, string]>) {
+            const inspected = config.inspect<string>(setting);
+            if (!inspected) {
+                continue;
+            }
+
+            const scopes: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+                [inspected.globalValue, vscode.ConfigurationTarget.Global],
+                [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+                [inspected.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+            ];
+
+            for (const [value, target] of scopes) {
+                if (!value) {
+                    continue;
+                }
+                console.log(`Migrating '${setting}' (target ${target}) into secret storage...`);
+                const existing = await this.listKeys(provider);
+                if (!(await this._hasValue(provider, value))) {
+                    await this.addKey(provider, existing.length === 0 ? "Default" : "Migrated from settings", value);
+                }
+                try {
+                    await config.update(setting, undefined, target);
+                } catch (error: any) {
+                    console.error(`Failed to clear '${setting}' after migration:`, error);
+                }
+            }
+        }
+    }
+
+    private async _hasValue(provider: ProviderId, value: string): Promise<boolean> {
+        const record = await this._read(provider);
+        return record.keys.some(k => k.value === value);
+    }
+
+    private async _read(provider: ProviderId): Promise<ProviderKeyRecord> {
+        const raw = await this._secrets.get(secretName(provider));
+        if (!raw) {
+            return { keys: [] };
+        }
+        try {
+            const parsed = JSON.parse(raw);
+            return { activeId: parsed.activeId, keys: Array.isArray(parsed.keys) ? parsed.keys : [] };
+        } catch (error) {
+            console.error(`Stored API keys for ${provider} are corrupted, ignoring them.`, error);
+            return { keys: [] };
+        }
+    }
+
+    private async _write(provider: ProviderId, record: ProviderKeyRecord): Promise<void> {
+        if (record.keys.length === 0) {
+            await this._secrets.delete(secretName(provider));
+        } else {
+            await this._secrets.store(secretName(provider), JSON.stringify(record));
+        }
+    }
+}
+
+const SECRET_PREFIX = "gitDiffCommitGenerator.apiKeys.";
+
+function secretName(provider: ProviderId): string {
+    return `${SECRET_PREFIX}${provider}`;
+}
@@ -0,0 +1,88 @@
+// src/templates.ts
+import * as path from "path";
+import { GenerationParameters } from "./providers";
+
+// --- Template Types ---
+export interface PromptTemplate {
+    name: string;
+    prompt: string;
+    projectPaths?: string[];
+    // Override the generation parameters from the settings while the template is used
+    parameters?: GenerationParameters;
+}
+
+export type SavedTemplates = { [id: string]: PromptTemplate };
+
+export interface ResolvedPrompt {
+    prompt: string;
+    templateId?: string;
+    templateName?: string;
+    parameters?: GenerationParameters;
+    source: "project" | "default" | "global" | "builtin";
+}
+
+// --- Helper Function for Default Prompt ---
+export function getDefaultPrompt(): string {
+    return "Read the diffs attached and give me a commit message in this form:\n" +
+           "modified(*file/path*) to change this and this\n" +
+           "You can choose (modified, deleted, added) and the message can be anything like change, fix, add, etc.\n" +
+           "Keep it short and clean and in the same form, keeping the path inside () and a new line between each mod line.";
+}
+
+function normalizePath(p: string): string {
+    const resolved = path.resolve(p);
+    return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+}
+
+export function isSamePath(a: string, b: string): boolean {
+    return normalizePath(a) === normalizePath(b);
+}
+
+// True when `repoPath` is `projectPath` itself or lives somewhere below it.
+export function isPathInProject(repoPath: string, projectPath: string): boolean {
+    const repo = normalizePath(repoPath);
+    const project = normalizePath(projectPath);
+    return repo === project || repo.startsWith(project + path.sep);
+}
+
+// Finds the template assigned to a repository. When several templates claim a parent
+// folder of the repository, the most specific (longest) path wins.
+export function findProjectTemplate(repoPath: string, templates: SavedTemplates): string | undefined {
+    let bestId: string | undefined;
+    let bestLength = -1;
+    for (const [id, template] of Object.entries(templates)) {
+        for (const projectPath of template.projectPaths || []) {
+            if (isPathInProject(repoPath, projectPath) && projectPath.length > bestLength) {
+                bestId = id;
+                bestLength = projectPath.length;
+            }
+        }
+    }
+    return bestId;
+}
+
+// Picks the prompt for a repository: a template assigned to the repository path,
+// then the default template, then the global prompt setting, then the built-in prompt.
+export function resolvePromptTemplate(
+    repoPath: string | undefined,
+    templates: SavedTemplates,
+    defaultTemplateId: string | undefined,
+    globalPrompt: string | undefined
+): ResolvedPrompt {
+    const projectTemplateId = repoPath ? findProjectTemplate(repoPath, templates) : undefined;
+    if (projectTemplateId) {
+        const template = templates[projectTemplateId];
+        return { prompt: template.prompt, templateId: projectTemplateId, templateName: template.name, parameters: template.parameters, source: "project" };
+    }
+
+    if (defaultTemplateId && templates[defaultTemplateId]?.prompt) {
+        const template = templates[defaultTemplateId];
+        return { prompt: template.prompt, templateId: defaultTemplateId, templateName: template.name, parameters: template.parameters, source: "default" };
+    }
+
+    if (globalPrompt) {
+        return { prompt: globalPrompt, source: "global" };
+    }
+
+    return { prompt: getDefaultPrompt(), source: "builtin" };
+}
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { CacheLimits, ResponseCache, getCacheKey } from '../cache';
+
+class MemoryState {
+	private readonly _values = new Map<string, any>();
+	get<T>(key: string): T | undefined {
+		return this._values.get(key);
+	}
+	async update(key: string, value: any): Promise<void> {
+		this._values.set(key, value);
+	}
+}
+
+suite('Response cache', () => {
+	const parts = { provider: 'openai', model: 'gpt-4o-mini', prompt: 'Write a message.', diff: '+a' };
+
+	test('keys depend on every part of the request', () => {
+		const key = getCacheKey(parts);
+		assert.match(key, /^[0-9a-f]{64}$/);
+		assert.strictEqual(getCacheKey({ ...parts }), key);
+		assert.notStrictEqual(getCacheKey({ ...parts, diff: '+b' }), key);
+		assert.notStrictEqual(getCacheKey({ ...parts, model: 'gpt-4o' }), key);
+		assert.notStrictEqual(getCacheKey({ ...parts, temperature: 0.7 }), key);
+		assert.notStrictEqual(getCacheKey({ ...parts, provider: 'ollama' }), key);
+	});
+
+	test('expires entries and keeps the newest ones', async () => {
+		let now = 0;
+		const limits: CacheLimits = { ttlMs: 1000, maxEntries: 2 };
+		const cache = new ResponseCache(new MemoryState(), () => limits, () => now);
+
+		await cache.set('a', { message: 'A', violations: [] });
+		assert.strictEqual(cache.get('a')?.message, 'A');
+		now = 1000;
+		assert.strictEqual(cache.get('a'), undefined);
+
+		await cache.set('b', { message: 'B', violations: [] });
+		await cache.set('c', { message: 'C', violations: [] });
+		await cache.set('d', { message: 'D', violations: [] });
+		assert.strictEqual(cache.size, 2);
+		assert.strictEqual(cache.get('b'), undefined);
+		assert.strictEqual(cache.get('d')?.message, 'D');
+
+		limits.maxEntries = 0;
+		assert.strictEqual(cache.get('d'), undefined);
+		await cache.clear();
+		assert.strictEqual(cache.size, 0);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { parseChangelogEntries, renderChangelogSection, updateChangelog } from '../changelog';
+
+suite('Changelog generation', () => {
+	test('parses categories from a fenced JSON response', () => {
+		const entries = parseChangelogEntries('```json\n{"added": ["- Dark mode"], "Fixes": ["Crash on start"], "Removed": []}\n```');
+		assert.deepStrictEqual(entries, { Added: ['Dark mode'], Changed: ['Crash on start'] });
+		assert.throws(() => parseChangelogEntries('Nothing to report.'), /JSON object/);
+	});
+
+	test('renders released and unreleased sections', () => {
+		const entries = { Fixed: ['Crash on start'], Added: ['Dark mode'] };
+		assert.strictEqual(renderChangelogSection('1.2.0', entries, '2024-05-01'),
+			'## [1.2.0] - 2024-05-01\n\n### Added\n\n- Dark mode\n\n### Fixed\n\n- Crash on start\n');
+		assert.ok(renderChangelogSection('unreleased', entries, '2024-05-01').startsWith('## [Unreleased]\n'));
+	});
+
+	test('creates the file with a header', () => {
+		const updated = updateChangelog(undefined, '## [1.0.0] - 2024-05-01\n\n### Added\n\n- First\n', '1.0.0');
+		assert.ok(updated.startsWith('# Changelog\n'));
+		assert.ok(updated.endsWith('## [1.0.0] - 2024-05-01\n\n### Added\n\n- First\n'));
+	});
+
+	test('inserts new versions below Unreleased and replaces existing ones', () => {
+		const existing = '# Changelog\n\n## [Unreleased]\n\n### Added\n\n- Wip\n\n## [1.0.0] - 2024-01-01\n\n### Added\n\n- First\n';
+		const inserted = updateChangelog(existing, '## [1.1.0] - 2024-05-01\n\n### Fixed\n\n- Bug\n', '1.1.0');
+		assert.strictEqual(inserted,
+			'# Changelog\n\n## [Unreleased]\n\n### Added\n\n- Wip\n\n## [1.1.0] - 2024-05-01\n\n### Fixed\n\n- Bug\n\n## [1.0.0] - 2024-01-01\n\n### Added\n\n- First\n');
+
+		const replaced = updateChangelog(inserted, '## [Unreleased]\n\n### Changed\n\n- Other\n', 'Unreleased');
+		assert.ok(replaced.startsWith('# Changelog\n\n## [Unreleased]\n\n### Changed\n\n- Other\n\n## [1.1.0]'));
+		assert.ok(!replaced.includes('Wip'));
+	});
+});
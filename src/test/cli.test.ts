@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { UsageError, parseCliArgs, resolveCliSettings } from '../cli';
+
+suite('Command line', () => {
+	test('parses options', () => {
+		const options = parseCliArgs(['--provider', 'openai', '--model=gpt-4o', '--range', 'main', '--json', '-C', '/repo', '--temperature', '0.2', '--no-redact']);
+		assert.strictEqual(options.provider, 'openai');
+		assert.strictEqual(options.model, 'gpt-4o');
+		assert.strictEqual(options.range, 'main');
+		assert.strictEqual(options.json, true);
+		assert.strictEqual(options.cwd, '/repo');
+		assert.strictEqual(options.temperature, 0.2);
+		assert.strictEqual(options.redact, false);
+		assert.strictEqual(options.commit, false);
+	});
+
+	test('rejects invalid command lines', () => {
+		assert.throws(() => parseCliArgs(['--provider', 'nope']), UsageError);
+		assert.throws(() => parseCliArgs(['--model']), /needs a value/);
+		assert.throws(() => parseCliArgs(['--temperature', 'hot']), /needs a number/);
+		assert.throws(() => parseCliArgs(['--commit', '--range', 'HEAD~2']), /only works with staged changes/);
+		assert.throws(() => parseCliArgs(['-m', 'message']), /Unknown option: -m/);
+	});
+
+	test('options override the snapshot from VS Code', () => {
+		const snapshot = { provider: 'ollama' as const, model: 'mistral', baseUrl: 'http://gpu:11434', prompt: 'House style.', templates: { Short: 'One line only.' } };
+		const fromSnapshot = resolveCliSettings(parseCliArgs([]), snapshot, undefined, '/');
+		assert.strictEqual(fromSnapshot.model, 'mistral');
+		assert.strictEqual(fromSnapshot.prompt, 'House style.');
+		assert.strictEqual(fromSnapshot.maxPromptTokens, 24000);
+
+		const overridden = resolveCliSettings(parseCliArgs(['--template', 'Short', '--max-prompt-tokens', '8000']), snapshot, undefined, '/');
+		assert.strictEqual(overridden.prompt, 'One line only.');
+		assert.strictEqual(overridden.maxPromptTokens, 8000);
+
+		// Switching providers drops the model and URL of the snapshot's provider
+		const otherProvider = resolveCliSettings(parseCliArgs(['--provider', 'anthropic']), snapshot, undefined, '/');
+		assert.strictEqual(otherProvider.model, 'claude-3-5-haiku-latest');
+		assert.strictEqual(otherProvider.baseUrl, undefined);
+
+		assert.throws(() => resolveCliSettings(parseCliArgs(['--template', 'Missing']), snapshot, undefined, '/'), /Saved templates: Short/);
+	});
+
+	test('conventional commits keep a custom prompt as additional instructions', () => {
+		const settings = resolveCliSettings(parseCliArgs(['--conventional', '--prompt', 'Mention the ticket.']), undefined, undefined, '/');
+		assert.ok(settings.conventional);
+		assert.ok(settings.prompt.includes('Conventional Commit'));
+		assert.ok(settings.prompt.endsWith('Additional instructions:\nMention the ticket.'));
+	});
+});
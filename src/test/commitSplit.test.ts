@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseDiff } from '../diff';
+import { buildSplitPatch, buildSplitPrompt, getSplitUnits, parseSplitPlan } from '../commitSplit';
+import { commitInGroups, getStagedPatch, runGit } from '../git';
+
+const DIFF = [
+	'diff --git a/src/a.ts b/src/a.ts',
+	'index 1111111..2222222 100644',
+	'--- a/src/a.ts',
+	'+++ b/src/a.ts',
+	'@@ -1,3 +1,3 @@',
+	' one',
+	'-two',
+	'+TWO',
+	' three',
+	'@@ -20,3 +20,3 @@',
+	' twenty',
+	'-twenty-one',
+	'+TWENTY-ONE',
+	' twenty-two',
+	'diff --git a/docs/new.md b/docs/new.md',
+	'new file mode 100644',
+	'index 0000000..3333333',
+	'--- /dev/null',
+	'+++ b/docs/new.md',
+	'@@ -0,0 +1 @@',
+	'+# New',
+].join('\n');
+
+suite('Commit split plans', () => {
+	const files = parseDiff(DIFF);
+	const units = getSplitUnits(files);
+
+	test('splits modified files into hunks and keeps new files whole', () => {
+		assert.deepStrictEqual(units.map(unit => unit.id), ['1.1', '1.2', '2']);
+		assert.strictEqual(units[0].label, '@@ -1,3 +1,3 @@');
+		assert.strictEqual(units[2].label, 'new file');
+	});
+
+	test('prompt lists every unit and shortens hunks over budget', () => {
+		const prompt = buildSplitPrompt(files, 'Use the imperative mood.', 10000);
+		assert.ok(prompt.includes('File 1: src/a.ts\n[1.1]\n@@ -1,3 +1,3 @@'));
+		assert.ok(prompt.includes('[2] new file'));
+		assert.ok(prompt.includes('Use the imperative mood.'));
+
+		const redacted = buildSplitPrompt(files, '', 10000, (filePath, diff) => filePath === 'docs/new.md' ? diff.replace('# New', '[REDACTED]') : diff);
+		assert.ok(redacted.includes('+[REDACTED]'));
+
+		const long = parseDiff(DIFF.replace('+TWO', Array.from({ length: 50 }, (_, i) => `+line ${i}`).join('\n')));
+		const shortened = buildSplitPrompt(long, '', 100);
+		assert.ok(shortened.includes('more lines)'));
+		assert.ok(!shortened.includes('+line 40'));
+	});
+
+	test('reads the plan and collects units the model left out', () => {
+		const plan = parseSplitPlan('```json\n{"commits": [{"message": "Fix a", "units": ["1.2", "9.9", "1.2"]}, {"message": "Add docs", "units": ["2.1"]}]}\n```', units);
+		assert.deepStrictEqual(plan, [
+			{ message: 'Fix a', units: ['1.2'] },
+			{ message: 'Add docs', units: ['2'] },
+			{ message: '', units: ['1.1'] },
+		]);
+		assert.deepStrictEqual(parseSplitPlan('{"commits": [{"message": "All", "units": ["1", 2]}]}', units), [{ message: 'All', units: ['1.1', '1.2', '2'] }]);
+		assert.throws(() => parseSplitPlan('no plan', units), /JSON object/);
+		assert.throws(() => parseSplitPlan('{"groups": []}', units), /"commits" array/);
+	});
+
+	test('patches contain the file header and the selected hunks', () => {
+		const patch = buildSplitPatch(files, ['1.2']);
+		assert.ok(patch.startsWith('diff --git a/src/a.ts b/src/a.ts'));
+		assert.ok(patch.includes('+TWENTY-ONE\n'));
+		assert.ok(!patch.includes('+TWO\n'));
+		assert.ok(!patch.includes('docs/new.md'));
+		assert.strictEqual(buildSplitPatch(files, ['2']), `${files[1].text}\n`);
+		assert.strictEqual(buildSplitPatch(files, []), '');
+	});
+});
+
+suite('Committing in groups', () => {
+	let repo: string;
+	const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+
+	setup(async () => {
+		repo = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-gen-split-'));
+		await runGit(repo, ['init', '-q']);
+		await runGit(repo, ['config', 'user.email', 'test@example.com']);
+		await runGit(repo, ['config', 'user.name', 'Test']);
+		fs.writeFileSync(path.join(repo, 'a.txt'), lines.join('\n') + '\n');
+		await runGit(repo, ['add', '.']);
+		await runGit(repo, ['commit', '-q', '-m', 'initial']);
+
+		const changed = [...lines];
+		changed[1] = 'changed 2';
+		changed[27] = 'changed 28';
+		fs.writeFileSync(path.join(repo, 'a.txt'), changed.join('\n') + '\n');
+		fs.writeFileSync(path.join(repo, 'b.txt'), 'new\n');
+		await runGit(repo, ['add', '.']);
+	});
+
+	teardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test('commits each group and leaves unplanned changes staged', async () => {
+		const files = parseDiff(await getStagedPatch(repo));
+		assert.deepStrictEqual(getSplitUnits(files).map(unit => unit.id), ['1.1', '1.2', '2']);
+
+		await commitInGroups(repo, [
+			{ message: 'Change line 28', patch: buildSplitPatch(files, ['1.2']) },
+			{ message: 'Add b', patch: buildSplitPatch(files, ['2']) },
+		]);
+		assert.strictEqual((await runGit(repo, ['log', '--format=%s'])).trim(), 'Add b\nChange line 28\ninitial');
+		assert.ok((await runGit(repo, ['show', 'HEAD~1', '--format='])).includes('+changed 28'));
+		const staged = await runGit(repo, ['diff', '--cached']);
+		assert.ok(staged.includes('+changed 2\n'));
+		assert.ok(!staged.includes('+changed 28'));
+	});
+
+	test('restores the branch and the index when a step fails', async () => {
+		const files = parseDiff(await getStagedPatch(repo));
+		const before = await runGit(repo, ['diff', '--cached']);
+		await assert.rejects(commitInGroups(repo, [
+			{ message: 'Add b', patch: buildSplitPatch(files, ['2']) },
+			{ message: 'Broken', patch: 'not a patch\n' },
+		]));
+		assert.strictEqual((await runGit(repo, ['log', '--format=%s'])).trim(), 'initial');
+		assert.strictEqual(await runGit(repo, ['diff', '--cached']), before);
+	});
+});
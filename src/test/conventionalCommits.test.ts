@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import {
+	ConventionalCommitRules,
+	DEFAULT_CONVENTIONAL_TYPES,
+	forceConventionalCommit,
+	parseConventionalCommit,
+	renderConventionalCommit,
+	repairConventionalCommit,
+	validateConventionalCommit
+} from '../conventionalCommits';
+
+const rules: ConventionalCommitRules = {
+	types: DEFAULT_CONVENTIONAL_TYPES,
+	scopes: ['api', 'ui'],
+	requireScope: false,
+	maxSubjectLength: 50
+};
+
+suite('Conventional Commits', () => {
+	test('parses JSON wrapped in a Markdown fence', () => {
+		const commit = parseConventionalCommit('Sure!\n```json\n{"type":"feat","scope":null,"subject":"add login","body":null,"breakingChange":null,"footers":[]}\n```');
+		assert.deepStrictEqual(commit, { type: 'feat', scope: undefined, subject: 'add login', body: undefined, breakingChange: undefined, footers: [] });
+	});
+
+	test('rejects responses without JSON', () => {
+		assert.throws(() => parseConventionalCommit('feat: add login'), /does not contain a JSON object/);
+	});
+
+	test('repairs case, aliases and trailing periods locally', () => {
+		const repaired = repairConventionalCommit({ type: 'Feature', scope: 'API', subject: 'Add login endpoint.' }, rules);
+		assert.strictEqual(repaired.type, 'feat');
+		assert.strictEqual(repaired.scope, 'api');
+		assert.strictEqual(repaired.subject, 'add login endpoint');
+		assert.deepStrictEqual(validateConventionalCommit(repaired, rules), []);
+	});
+
+	test('reports disallowed scopes and long headers', () => {
+		const violations = validateConventionalCommit({
+			type: 'fix',
+			scope: 'db',
+			subject: 'handle connection resets while the pool is draining'
+		}, rules);
+		assert.strictEqual(violations.length, 2);
+		assert.ok(violations[0].includes('scope "db"'));
+		assert.ok(violations[1].includes('maximum is 50'));
+	});
+
+	test('forcing drops invalid scopes and trims the subject at a word boundary', () => {
+		const forced = forceConventionalCommit({ type: 'fix', scope: 'db', subject: 'handle connection resets while the pool is draining' }, rules);
+		assert.strictEqual(forced.scope, undefined);
+		assert.deepStrictEqual(validateConventionalCommit(forced, rules), []);
+		assert.ok(!forced.subject.endsWith(' '));
+	});
+
+	test('renders breaking changes and footers', () => {
+		const message = renderConventionalCommit({
+			type: 'feat',
+			scope: 'api',
+			subject: 'drop v1 endpoints',
+			body: 'The v1 endpoints were deprecated a year ago.',
+			breakingChange: 'v1 clients must migrate to v2',
+			footers: [{ token: 'Refs', value: '#42' }]
+		});
+		assert.strictEqual(message,
+			'feat(api)!: drop v1 endpoints\n\n' +
+			'The v1 endpoints were deprecated a year ago.\n\n' +
+			'BREAKING CHANGE: v1 clients must migrate to v2\nRefs: #42');
+	});
+});
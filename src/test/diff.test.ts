@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { chunkDiff, estimateTokens, parseDiff } from '../diff';
+
+function fileDiff(name: string, hunks: string[]): string {
+	return [
+		`diff --git a/${name} b/${name}`,
+		'index 1111111..2222222 100644',
+		`--- a/${name}`,
+		`+++ b/${name}`,
+		...hunks
+	].join('\n');
+}
+
+function hunk(start: number, lines: number): string {
+	const body = Array.from({ length: lines }, (_, i) => `+line ${start + i} of some changed code`);
+	return [`@@ -${start},0 +${start},${lines} @@`, ...body].join('\n');
+}
+
+suite('Diff chunking', () => {
+	test('parseDiff splits files and hunks', () => {
+		const diff = fileDiff('a.ts', [hunk(1, 2), hunk(20, 3)]) + '\n' + fileDiff('b.ts', [hunk(5, 1)]);
+		const files = parseDiff(diff);
+
+		assert.strictEqual(files.length, 2);
+		assert.strictEqual(files[0].path, 'a.ts');
+		assert.strictEqual(files[0].hunks.length, 2);
+		assert.ok(files[0].hunks[1].header.startsWith('@@ -20'));
+		assert.strictEqual(files[1].path, 'b.ts');
+	});
+
+	test('parseDiff uses the old path for deleted files', () => {
+		const diff = [
+			'diff --git a/gone.ts b/gone.ts',
+			'deleted file mode 100644',
+			'--- a/gone.ts',
+			'+++ /dev/null',
+			'@@ -1 +0,0 @@',
+			'-bye'
+		].join('\n');
+
+		assert.strictEqual(parseDiff(diff)[0].path, 'gone.ts');
+	});
+
+	test('small diffs stay in one chunk', () => {
+		const diff = fileDiff('a.ts', [hunk(1, 2)]) + '\n' + fileDiff('b.ts', [hunk(1, 2)]);
+		assert.deepStrictEqual(chunkDiff(diff, 10000), [diff]);
+	});
+
+	test('large files are split per hunk and keep their header', () => {
+		const diff = fileDiff('big.ts', [hunk(1, 40), hunk(100, 40), hunk(200, 40)]);
+		const chunks = chunkDiff(diff, 600);
+
+		assert.ok(chunks.length > 1);
+		for (const chunk of chunks) {
+			assert.ok(chunk.startsWith('diff --git a/big.ts b/big.ts'));
+			assert.ok(estimateTokens(chunk) <= 600);
+		}
+	});
+
+	test('oversized hunks are split by lines', () => {
+		const diff = fileDiff('huge.ts', [hunk(1, 400)]);
+		const chunks = chunkDiff(diff, 500);
+
+		assert.ok(chunks.length > 1);
+		assert.ok(chunks[1].includes('(continued)'));
+		const addedLines = chunks.join('\n').split('\n').filter(line => line.startsWith('+line')).length;
+		assert.strictEqual(addedLines, 400);
+	});
+});
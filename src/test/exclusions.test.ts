@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { applyExclusions, isExcludedFile, parseIgnoreFile, parseNumstat } from '../exclusions';
+
+const diff = [
+	'diff --git a/package-lock.json b/package-lock.json',
+	'index 1111111..2222222 100644',
+	'--- a/package-lock.json',
+	'+++ b/package-lock.json',
+	'@@ -1,3 +1,3 @@',
+	'-    "version": "1.0.0",',
+	'+    "version": "1.0.1",',
+	'diff --git a/dist/app.min.js b/dist/app.min.js',
+	'new file mode 100644',
+	'index 0000000..3333333',
+	'--- /dev/null',
+	'+++ b/dist/app.min.js',
+	'@@ -0,0 +1 @@',
+	'+!function(){console.log("minified")}();',
+	'diff --git a/src/app.ts b/src/app.ts',
+	'index 4444444..5555555 100644',
+	'--- a/src/app.ts',
+	'+++ b/src/app.ts',
+	'@@ -1 +1 @@',
+	'-export const version = "1.0.0";',
+	'+export const version = "1.0.1";'
+].join('\n');
+
+suite('Exclusions', () => {
+	test('replaces excluded files with summaries and keeps their stats', () => {
+		const stats = parseNumstat('1\t1\tpackage-lock.json\n1\t0\tdist/app.min.js\n1\t1\tsrc/app.ts\n');
+		const result = applyExclusions(diff, stats, ['package-lock.json', '*.min.js']);
+
+		assert.deepStrictEqual(result.excludedFiles, ['package-lock.json', 'dist/app.min.js']);
+		assert.ok(!result.diff.includes('"version": "1.0.1"'));
+		assert.ok(!result.diff.includes('minified'));
+		assert.ok(result.diff.includes('package-lock.json: regenerated'));
+		assert.ok(result.diff.includes('dist/app.min.js: added'));
+		assert.ok(result.diff.includes('package-lock.json | +1 -1 (excluded from the diff)'));
+		assert.ok(result.diff.includes('src/app.ts | +1 -1\n'));
+		assert.ok(result.diff.endsWith('+export const version = "1.0.1";'));
+	});
+
+	test('returns the diff unchanged when nothing is excluded', () => {
+		const result = applyExclusions(diff, [], ['*.snap']);
+		assert.strictEqual(result.diff, diff);
+		assert.deepStrictEqual(result.excludedFiles, []);
+	});
+
+	test('later negated patterns re-include files', () => {
+		const patterns = ['*.min.js', ...parseIgnoreFile('# vendored bundles are reviewed\n\n!vendor/*.min.js\n')];
+		assert.ok(isExcludedFile('dist/app.min.js', patterns));
+		assert.ok(!isExcludedFile('vendor/lib.min.js', patterns));
+		assert.ok(!isExcludedFile('src/app.ts', patterns));
+	});
+
+	test('numstat parsing handles binary files and renames', () => {
+		assert.deepStrictEqual(parseNumstat('-\t-\timg/logo.png\n3\t1\tsrc/{old => new}/a.ts\n0\t0\told.txt => new.txt'), [
+			{ path: 'img/logo.png', added: undefined, deleted: undefined },
+			{ path: 'src/new/a.ts', added: 3, deleted: 1 },
+			{ path: 'new.txt', added: 0, deleted: 0 }
+		]);
+	});
+});
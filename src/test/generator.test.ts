@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { getProviderDescriptor } from '../providers';
+import { prepareGenerationPrompt } from '../generator';
+
+function fileDiff(name: string): string {
+	const lines = Array.from({ length: 60 }, (_, i) => `+const value${i} = "${name} line ${i}";`);
+	return [`diff --git a/${name} b/${name}`, `--- a/${name}`, `+++ b/${name}`, `@@ -0,0 +1,60 @@`, ...lines].join('\n');
+}
+
+suite('Summarizing large diffs', () => {
+	test('a template that fills the budget still leaves room for the summaries', async () => {
+		let requests = 0;
+		const server = http.createServer((req, res) => {
+			req.resume();
+			req.on('end', () => {
+				requests++;
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({ choices: [{ message: { content: `- file ${requests}: adds constants` } }] }));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		try {
+			const template = 'Write a commit message. '.repeat(200);
+			const prompt = await prepareGenerationPrompt({
+				providerSettings: { descriptor: getProviderDescriptor('openai'), model: 'm', apiKey: 'key', baseUrl, retry: { maxRetries: 0, timeoutMs: 0, initialDelayMs: 1 } },
+				prompt: template,
+				diff: ['a.ts', 'b.ts', 'c.ts'].map(fileDiff).join('\n'),
+				maxPromptTokens: 1000,
+			});
+
+			// One summary per chunk and no condensing rounds
+			assert.strictEqual(requests, 3);
+			assert.ok(prompt.startsWith(template));
+			assert.ok(prompt.includes('- file 1: adds constants\n\n- file 2: adds constants\n\n- file 3: adds constants'));
+		} finally {
+			server.close();
+		}
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDiff, getNumstat, getRecentCommits, isCommitPublished, normalizeRange, rewordCommit, runGit } from '../git';
+
+suite('Git diff sources', () => {
+	let repo: string;
+
+	suiteSetup(async () => {
+		repo = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-gen-git-'));
+		await runGit(repo, ['init', '-q']);
+		await runGit(repo, ['config', 'user.email', 'test@example.com']);
+		await runGit(repo, ['config', 'user.name', 'Test']);
+		fs.writeFileSync(path.join(repo, 'a.txt'), 'one\n');
+		fs.writeFileSync(path.join(repo, 'b.txt'), 'one\n');
+		await runGit(repo, ['add', '.']);
+		await runGit(repo, ['commit', '-q', '-m', 'initial']);
+		fs.writeFileSync(path.join(repo, 'a.txt'), 'two\n');
+		await runGit(repo, ['commit', '-q', '-am', 'second']);
+
+		// Staged change to b.txt, unstaged change to a.txt, one untracked file
+		fs.writeFileSync(path.join(repo, 'b.txt'), 'staged\n');
+		await runGit(repo, ['add', 'b.txt']);
+		fs.writeFileSync(path.join(repo, 'a.txt'), 'unstaged\n');
+		fs.writeFileSync(path.join(repo, 'new.txt'), 'untracked\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test('staged diff only contains the index', async () => {
+		const diff = await getDiff(repo, { kind: 'staged' });
+		assert.ok(diff.includes('+staged'));
+		assert.ok(!diff.includes('+unstaged'));
+	});
+
+	test('working tree diff contains staged, unstaged and untracked files', async () => {
+		const diff = await getDiff(repo, { kind: 'workingTree' });
+		assert.ok(diff.includes('+staged'));
+		assert.ok(diff.includes('+unstaged'));
+		assert.ok(diff.startsWith('New untracked files (contents not included):\nnew.txt'));
+	});
+
+	test('selected files limit the diff', async () => {
+		const diff = await getDiff(repo, { kind: 'files', paths: [path.join(repo, 'a.txt')] });
+		assert.ok(diff.includes('+unstaged'));
+		assert.ok(!diff.includes('b.txt'));
+		assert.deepStrictEqual((await getNumstat(repo, { kind: 'files', paths: [path.join(repo, 'a.txt')] })).map(s => s.path), ['a.txt']);
+	});
+
+	test('ranges describe committed changes', async () => {
+		const diff = await getDiff(repo, { kind: 'range', range: 'HEAD~1' });
+		assert.ok(diff.includes('-one'));
+		assert.ok(diff.includes('+two'));
+		assert.ok(!diff.includes('unstaged'));
+		assert.strictEqual(normalizeRange(' HEAD~3 '), 'HEAD~3..HEAD');
+		assert.strictEqual(normalizeRange('main...feature'), 'main...feature');
+		await assert.rejects(getDiff(repo, { kind: 'range', range: '--output=/tmp/x' }), /Invalid commit range/);
+	});
+
+	test('commit diffs come from git show', async () => {
+		const [head] = await getRecentCommits(repo, 1);
+		const diff = await getDiff(repo, { kind: 'commit', sha: head.sha });
+		assert.ok(diff.startsWith('diff --git a/a.txt b/a.txt'));
+		assert.ok(diff.includes('+two'));
+	});
+
+	test('rewording HEAD keeps staged changes out of the commit', async () => {
+		const [head] = await getRecentCommits(repo, 1);
+		await rewordCommit(repo, head.sha, 'Change a.txt to two');
+
+		const [reworded] = await getRecentCommits(repo, 1);
+		assert.strictEqual(reworded.subject, 'Change a.txt to two');
+		assert.ok((await getDiff(repo, { kind: 'staged' })).includes('+staged'));
+	});
+
+	test('rewording an older commit recreates the commits after it', async () => {
+		const before = await getRecentCommits(repo, 2);
+		const headTree = await runGit(repo, ['rev-parse', 'HEAD^{tree}']);
+		await rewordCommit(repo, before[1].sha, 'Add a.txt and b.txt\n\nFirst commit.');
+
+		const after = await getRecentCommits(repo, 2);
+		assert.deepStrictEqual(after.map(c => c.subject), ['Change a.txt to two', 'Add a.txt and b.txt']);
+		assert.notStrictEqual(after[1].sha, before[1].sha);
+		assert.strictEqual(after[0].parents[0], after[1].sha);
+		assert.strictEqual(await runGit(repo, ['rev-parse', 'HEAD^{tree}']), headTree);
+		assert.strictEqual(await runGit(repo, ['log', '-1', '--format=%B', 'HEAD~1']), 'Add a.txt and b.txt\n\nFirst commit.\n\n');
+		assert.ok((await getDiff(repo, { kind: 'workingTree' })).includes('+unstaged'));
+	});
+
+	test('commits on a remote branch count as published', async () => {
+		const [head] = await getRecentCommits(repo, 1);
+		assert.strictEqual(await isCommitPublished(repo, head.sha), false);
+		await runGit(repo, ['update-ref', 'refs/remotes/origin/main', head.sha]);
+		assert.strictEqual(await isCommitPublished(repo, head.sha), true);
+	});
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { CommitHistoryStore, HistoryEntry } from '../history';
+
+class MemoryState {
+	readonly values = new Map<string, unknown>();
+	get<T>(key: string): T | undefined {
+		return this.values.get(key) as T | undefined;
+	}
+	async update(key: string, value: unknown): Promise<void> {
+		this.values.set(key, value);
+	}
+}
+
+suite('Commit history', () => {
+	let state: MemoryState;
+	let maxSize: number;
+	let store: CommitHistoryStore;
+
+	setup(() => {
+		state = new MemoryState();
+		maxSize = 50;
+		store = new CommitHistoryStore(state as unknown as vscode.Memento, () => maxSize);
+	});
+
+	test('keeps entries newest first, per repository', async () => {
+		await store.add({ message: 'feat: one', repoPath: '/repo/a' });
+		await store.add({ message: 'feat: two', repoPath: '/repo/b' });
+		await store.add({ message: 'feat: three', repoPath: '/repo/a' });
+
+		assert.deepStrictEqual(store.getEntries().map(e => e.message), ['feat: three', 'feat: two', 'feat: one']);
+		assert.deepStrictEqual(store.getEntries('/repo/a').map(e => e.message), ['feat: three', 'feat: one']);
+		assert.strictEqual(new Set(store.getEntries().map(e => e.id)).size, 3);
+	});
+
+	test('moves a repeated message back to the top', async () => {
+		await store.add({ message: 'fix: crash\n', repoPath: '/repo/a' });
+		await store.add({ message: 'docs: readme', repoPath: '/repo/a' });
+		await store.add({ message: 'fix: crash', repoPath: '/repo/b' });
+		await store.add({ message: '  fix: crash  \r\n', repoPath: '/repo/a', model: 'gpt-4o' });
+
+		const entries = store.getEntries();
+		assert.deepStrictEqual(entries.map(e => [e.repoPath, e.message.trim()]), [
+			['/repo/a', 'fix: crash'],
+			['/repo/b', 'fix: crash'],
+			['/repo/a', 'docs: readme'],
+		]);
+		assert.strictEqual(entries[0].model, 'gpt-4o');
+	});
+
+	test('marks the newest uncommitted match as committed', async () => {
+		const entry = (id: string, committed: boolean): HistoryEntry =>
+			({ id, message: 'feat: login', repoPath: '/repo/a', timestamp: 0, committed });
+		await state.update('gitDiffCommitGenerator.commitHistory', [
+			entry('committed', true),
+			entry('newer', false),
+			{ ...entry('other-repo', false), repoPath: '/repo/b' },
+			entry('older', false),
+		]);
+
+		assert.strictEqual(await store.markCommitted('/repo/a', 'feat: login\n'), true);
+		assert.deepStrictEqual(store.getEntries().filter(e => e.committed).map(e => e.id), ['committed', 'newer']);
+		assert.strictEqual(await store.markCommitted('/repo/a', 'feat: logout'), false);
+	});
+
+	test('trims to the history size', async () => {
+		maxSize = 3;
+		for (let i = 1; i <= 5; i++) {
+			await store.add({ message: `feat: ${i}`, repoPath: '/repo/a' });
+		}
+		assert.deepStrictEqual(store.getEntries().map(e => e.message), ['feat: 5', 'feat: 4', 'feat: 3']);
+
+		// A lowered size applies on the next change; at least one entry is always kept
+		maxSize = 0;
+		await store.markCommitted('/repo/a', 'feat: 4');
+		assert.deepStrictEqual(store.getEntries().map(e => e.message), ['feat: 5']);
+	});
+
+	test('clear removes every entry and notifies', async () => {
+		let changes = 0;
+		store.onDidChange(() => changes++);
+		await store.add({ message: 'feat: one', repoPath: '/repo/a' });
+		await store.clear();
+		assert.deepStrictEqual(store.getEntries(), []);
+		assert.strictEqual(changes, 2);
+	});
+});
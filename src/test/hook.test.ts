@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from '../git';
+import { getApiKeyFromEnv } from '../headless';
+import { buildHookScript, fillMessage, getHookPath, installHook, isHookInstalled, shouldFillMessage, uninstallHook } from '../hook';
+
+suite('Commit message hook', () => {
+	const gitTemplate = '\n# Please enter the commit message for your changes.\n#\n# Changes to be committed:\n#\tmodified:   a.txt\n';
+
+	test('only fills empty messages of plain commits', () => {
+		assert.strictEqual(shouldFillMessage(undefined, gitTemplate), true);
+		assert.strictEqual(shouldFillMessage('template', '# Describe the change\n'), true);
+		assert.strictEqual(shouldFillMessage('template', 'JIRA-1: \n# Describe the change\n'), false);
+		assert.strictEqual(shouldFillMessage('message', ''), false);
+		assert.strictEqual(shouldFillMessage('merge', 'Merge branch x'), false);
+		assert.strictEqual(shouldFillMessage('commit', gitTemplate), false);
+		assert.strictEqual(shouldFillMessage(undefined, '\n# comment\n# ------------------------ >8 ------------------------\ndiff --git a/a b/a\n'), true);
+	});
+
+	test('puts the message above the comments', () => {
+		assert.strictEqual(fillMessage(gitTemplate, 'Change a.txt\n'), `Change a.txt\n${gitTemplate}`);
+		assert.strictEqual(fillMessage('# comment\n', 'Change a.txt'), 'Change a.txt\n\n# comment\n');
+		assert.strictEqual(fillMessage('', 'Change a.txt'), 'Change a.txt\n');
+	});
+
+	test('hook script never fails the commit', () => {
+		const script = buildHookScript('C:\\Users\\me\\ext\\out\\cli.js', "/opt/it's code/code");
+		assert.ok(script.startsWith('#!/bin/sh\n'));
+		assert.ok(script.includes(`node 'C:/Users/me/ext/out/cli.js' hook prepare-commit-msg "$@" || true`));
+		assert.ok(script.includes(`ELECTRON_RUN_AS_NODE=1 '/opt/it'\\''s code/code'`));
+		assert.ok(script.endsWith('exit 0\n'));
+	});
+
+	test('reads API keys from the environment', () => {
+		assert.strictEqual(getApiKeyFromEnv('openai', { OPENAI_API_KEY: 'a' }), 'a');
+		assert.strictEqual(getApiKeyFromEnv('openai', { OPENAI_API_KEY: 'a', COMMIT_GEN_API_KEY: 'b' }), 'b');
+		assert.strictEqual(getApiKeyFromEnv('gemini', { OPENAI_API_KEY: 'a' }), undefined);
+	});
+
+	test('installs and removes only its own hook', async () => {
+		const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-gen-hook-'));
+		// Independent of a core.hooksPath set in the environment or the global config
+		const configCount = process.env.GIT_CONFIG_COUNT;
+		delete process.env.GIT_CONFIG_COUNT;
+		try {
+			await runGit(repo, ['init', '-q']);
+			await runGit(repo, ['config', 'core.hooksPath', '.git/hooks']);
+			const hookPath = await getHookPath(repo);
+			assert.strictEqual(await isHookInstalled(repo), false);
+
+			await installHook(repo, buildHookScript('/ext/out/cli.js', '/bin/code'), { provider: 'ollama' });
+			assert.strictEqual(await isHookInstalled(repo), true);
+			assert.ok(fs.statSync(hookPath).mode & 0o100);
+			await uninstallHook(repo);
+			assert.strictEqual(fs.existsSync(hookPath), false);
+
+			fs.writeFileSync(hookPath, '#!/bin/sh\necho mine\n');
+			await assert.rejects(installHook(repo, buildHookScript('/ext/out/cli.js', '/bin/code'), {}), /already exists/);
+			await assert.rejects(uninstallHook(repo), /not installed by this extension/);
+			assert.strictEqual(fs.readFileSync(hookPath, 'utf8'), '#!/bin/sh\necho mine\n');
+		} finally {
+			if (configCount !== undefined) {
+				process.env.GIT_CONFIG_COUNT = configCount;
+			}
+			fs.rmSync(repo, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { ModelListCache, describeModel, formatTokenCount, getModelListKey } from '../models';
+
+class MemoryState {
+	private readonly _values = new Map<string, any>();
+	get<T>(key: string): T | undefined {
+		return this._values.get(key);
+	}
+	async update(key: string, value: any): Promise<void> {
+		this._values.set(key, value);
+	}
+}
+
+suite('Model lists', () => {
+	test('lists are kept per provider, server and key', () => {
+		const key = getModelListKey('openai', 'https://api.openai.com/v1', 'sk-one');
+		assert.match(key, /^[0-9a-f]{64}$/);
+		assert.ok(!key.includes('sk-one'));
+		assert.notStrictEqual(getModelListKey('openai', 'https://api.openai.com/v1', 'sk-two'), key);
+		assert.notStrictEqual(getModelListKey('openai', 'http://localhost:1234/v1', 'sk-one'), key);
+	});
+
+	test('cached lists turn stale but are still returned', async () => {
+		let now = 0;
+		const cache = new ModelListCache(new MemoryState(), 1000, () => now);
+		assert.strictEqual(cache.get('a'), undefined);
+
+		await cache.set('a', [{ id: 'm', label: 'M' }]);
+		assert.deepStrictEqual(cache.get('a'), { models: [{ id: 'm', label: 'M' }], stale: false });
+		now = 1000;
+		assert.strictEqual(cache.get('a')?.stale, true);
+		await cache.set('a', []);
+		assert.deepStrictEqual(cache.get('a'), { models: [], stale: false });
+	});
+
+	test('describes context window and pricing', () => {
+		assert.strictEqual(formatTokenCount(1048576), '1M');
+		assert.strictEqual(formatTokenCount(2097152), '2.1M');
+		assert.strictEqual(formatTokenCount(128000), '128K');
+		assert.strictEqual(describeModel({ id: 'm', label: 'M', contextWindow: 200000, pricing: { input: 0.8, output: 4 } }), '200K context · $0.80 / $4.00 per 1M tokens');
+		assert.strictEqual(describeModel({ id: 'm', label: 'M', pricing: { input: 0, output: 0 } }), 'free');
+		assert.strictEqual(describeModel({ id: 'm', label: 'M' }), '');
+	});
+});
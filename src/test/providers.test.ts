@@ -0,0 +1,279 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createProvider, getGeminiSafetySettings, getProviderDescriptor, mergeGenerationParameters, resolveModel } from '../providers';
+
+// Minimal stub server that records the last request and replies with a canned body
+function startStubServer(status: number, body: unknown): Promise<{ server: http.Server, baseUrl: string, requests: Array<{ url?: string, headers: http.IncomingHttpHeaders, body: any }> }> {
+	const requests: Array<{ url?: string, headers: http.IncomingHttpHeaders, body: any }> = [];
+	const server = http.createServer((req, res) => {
+		let raw = '';
+		req.on('data', chunk => raw += chunk);
+		req.on('end', () => {
+			requests.push({ url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : undefined });
+			res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/event-stream' : 'application/json' });
+			res.end(typeof body === 'string' ? body : JSON.stringify(body));
+		});
+	});
+	return new Promise(resolve => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests });
+		});
+	});
+}
+
+suite('Providers', () => {
+	test('OpenAI-compatible provider posts chat completions', async () => {
+		const stub = await startStubServer(200, { choices: [{ message: { content: 'add(src/a.ts) feature' } }] });
+		try {
+			const provider = createProvider('openai', { apiKey: 'sk-test', baseUrl: stub.baseUrl + '/' });
+			const text = await provider.generate({ model: 'local-model', prompt: 'hello' });
+
+			assert.strictEqual(text, 'add(src/a.ts) feature');
+			assert.strictEqual(stub.requests[0].url, '/chat/completions');
+			assert.strictEqual(stub.requests[0].headers.authorization, 'Bearer sk-test');
+			assert.strictEqual(stub.requests[0].body.model, 'local-model');
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('Ollama provider talks to /api/chat without streaming', async () => {
+		const stub = await startStubServer(200, { message: { content: 'fix(x) thing' } });
+		try {
+			const provider = createProvider('ollama', { baseUrl: stub.baseUrl });
+			const text = await provider.generate({ model: 'llama3.2', prompt: 'hello' });
+
+			assert.strictEqual(text, 'fix(x) thing');
+			assert.strictEqual(stub.requests[0].url, '/api/chat');
+			assert.strictEqual(stub.requests[0].body.stream, false);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('Anthropic provider joins text blocks', async () => {
+		const stub = await startStubServer(200, { content: [{ type: 'text', text: 'one ' }, { type: 'text', text: 'two' }] });
+		try {
+			const provider = createProvider('anthropic', { apiKey: 'key', baseUrl: stub.baseUrl });
+			const text = await provider.generate({ model: 'claude-3-5-haiku-latest', prompt: 'hello' });
+
+			assert.strictEqual(text, 'one two');
+			assert.strictEqual(stub.requests[0].url, '/v1/messages');
+			assert.strictEqual(stub.requests[0].headers['x-api-key'], 'key');
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('generation parameters are sent in each API format', async () => {
+		const parameters = { temperature: 0.2, topP: 0.9, maxOutputTokens: 200, stopSequences: ['---'], systemInstruction: 'Write in German.' };
+		const stub = await startStubServer(200, { choices: [{ message: { content: 'x' } }], message: { content: 'x' }, content: [{ type: 'text', text: 'x' }] });
+		try {
+			await createProvider('openai', { apiKey: 'key', baseUrl: stub.baseUrl }).generate({ model: 'm', prompt: 'hello', ...parameters });
+			await createProvider('ollama', { baseUrl: stub.baseUrl }).generate({ model: 'm', prompt: 'hello', ...parameters });
+			await createProvider('anthropic', { apiKey: 'key', baseUrl: stub.baseUrl }).generate({ model: 'm', prompt: 'hello', ...parameters });
+
+			const [openai, ollama, anthropic] = stub.requests.map(request => request.body);
+			assert.deepStrictEqual(openai.messages, [{ role: 'system', content: 'Write in German.' }, { role: 'user', content: 'hello' }]);
+			assert.strictEqual(openai.top_p, 0.9);
+			assert.strictEqual(openai.max_tokens, 200);
+			assert.deepStrictEqual(openai.stop, ['---']);
+			assert.deepStrictEqual(ollama.options, { temperature: 0.2, top_p: 0.9, num_predict: 200, stop: ['---'] });
+			assert.strictEqual(ollama.messages[0].role, 'system');
+			assert.strictEqual(anthropic.system, 'Write in German.');
+			assert.strictEqual(anthropic.max_tokens, 200);
+			assert.deepStrictEqual(anthropic.stop_sequences, ['---']);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('template parameters override the settings', () => {
+		const merged = mergeGenerationParameters(
+			{ temperature: 0.5, maxOutputTokens: 100, safety: { harassment: 'blockNone', hateSpeech: 'blockOnlyHigh' } },
+			{ temperature: 0.1, maxOutputTokens: undefined, safety: { hateSpeech: 'blockLowAndAbove' } }
+		);
+		assert.deepStrictEqual(merged, { temperature: 0.1, maxOutputTokens: 100, safety: { harassment: 'blockNone', hateSpeech: 'blockLowAndAbove' } });
+	});
+
+	test('Gemini safety thresholds map to harm categories', () => {
+		const settings = getGeminiSafetySettings({ harassment: 'blockOnlyHigh', hateSpeech: 'providerDefault' });
+		assert.deepStrictEqual(settings.map(setting => `${setting.category} ${setting.threshold}`), [
+			'HARM_CATEGORY_HARASSMENT BLOCK_ONLY_HIGH',
+			'HARM_CATEGORY_SEXUALLY_EXPLICIT BLOCK_MEDIUM_AND_ABOVE',
+			'HARM_CATEGORY_DANGEROUS_CONTENT BLOCK_MEDIUM_AND_ABOVE',
+		]);
+	});
+
+	test('providers report token usage', async () => {
+		const stub = await startStubServer(200, {
+			choices: [{ message: { content: 'x' } }],
+			usage: { prompt_tokens: 12, completion_tokens: 3, input_tokens: 20, output_tokens: 5 },
+			message: { content: 'x' },
+			content: [{ type: 'text', text: 'x' }],
+			prompt_eval_count: 30,
+			eval_count: 7,
+		});
+		try {
+			const usages: unknown[] = [];
+			const request = { model: 'm', prompt: 'hello', onUsage: (usage: unknown) => usages.push(usage) };
+			await createProvider('openai', { apiKey: 'key', baseUrl: stub.baseUrl }).generate(request);
+			await createProvider('anthropic', { apiKey: 'key', baseUrl: stub.baseUrl }).generate(request);
+			await createProvider('ollama', { baseUrl: stub.baseUrl }).generate(request);
+
+			assert.deepStrictEqual(usages, [
+				{ promptTokens: 12, outputTokens: 3 },
+				{ promptTokens: 20, outputTokens: 5 },
+				{ promptTokens: 30, outputTokens: 7 },
+			]);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('OpenAI-compatible provider lists chat models with their details', async () => {
+		const stub = await startStubServer(200, { data: [
+			{ id: 'gpt-4o' },
+			{ id: 'text-embedding-3-small' },
+			{ id: 'anthropic/claude-3.5-haiku', name: 'Claude 3.5 Haiku', context_length: 200000, pricing: { prompt: '0.0000008', completion: '0.000004' } },
+		] });
+		try {
+			const models = await createProvider('openai', { apiKey: 'key', baseUrl: stub.baseUrl }).listModels();
+
+			assert.strictEqual(stub.requests[0].url, '/models');
+			assert.strictEqual(stub.requests[0].headers.authorization, 'Bearer key');
+			assert.deepStrictEqual(models, [
+				{ id: 'anthropic/claude-3.5-haiku', label: 'Claude 3.5 Haiku', contextWindow: 200000, pricing: { input: 0.8, output: 4 } },
+				{ id: 'gpt-4o', label: 'gpt-4o', contextWindow: undefined, pricing: undefined },
+			]);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('Ollama provider lists the pulled models', async () => {
+		const stub = await startStubServer(200, { models: [{ name: 'qwen2.5-coder:7b', details: { parameter_size: '7.6B' } }, { name: 'llama3.2:latest' }] });
+		try {
+			const models = await createProvider('ollama', { baseUrl: stub.baseUrl }).listModels();
+
+			assert.strictEqual(stub.requests[0].url, '/api/tags');
+			assert.deepStrictEqual(models.map(model => model.label), ['llama3.2:latest', 'qwen2.5-coder:7b (7.6B)']);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('HTTP errors surface the provider message', async () => {
+		const stub = await startStubServer(401, { error: { message: 'Incorrect API key provided' } });
+		try {
+			const provider = createProvider('openai', { apiKey: 'bad', baseUrl: stub.baseUrl });
+			await assert.rejects(
+				provider.generate({ model: 'gpt-4o-mini', prompt: 'hello' }),
+				/HTTP 401: Incorrect API key provided/
+			);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('OpenAI-compatible provider streams server-sent events', async () => {
+		const events = [
+			'data: {"choices":[{"delta":{"content":"add("}}]}',
+			'data: {"choices":[{"delta":{"content":"src/a.ts) feature"}}]}',
+			'data: [DONE]',
+			''
+		].join('\n\n');
+		const stub = await startStubServer(200, events);
+		try {
+			const provider = createProvider('openai', { baseUrl: stub.baseUrl });
+			const tokens: string[] = [];
+			const text = await provider.generate({ model: 'local-model', prompt: 'hello', onToken: t => tokens.push(t) });
+
+			assert.strictEqual(text, 'add(src/a.ts) feature');
+			assert.deepStrictEqual(tokens, ['add(', 'src/a.ts) feature']);
+			assert.strictEqual(stub.requests[0].body.stream, true);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('multi-byte characters split across chunks stay intact', async () => {
+		// "ü" is two bytes in UTF-8; each response sends them in separate writes
+		const send = (res: http.ServerResponse, text: string) => {
+			const bytes = Buffer.from(text, 'utf8');
+			const split = bytes.indexOf(0xc3) + 1;
+			res.write(bytes.subarray(0, split));
+			setTimeout(() => res.end(bytes.subarray(split)), 20);
+		};
+		const server = http.createServer((req, res) => {
+			req.resume();
+			req.on('end', () => {
+				if (req.url === '/fail/chat/completions') {
+					res.writeHead(400, { 'Content-Type': 'application/json' });
+					send(res, JSON.stringify({ error: { message: 'Ungültiges Modell' } }));
+				} else {
+					res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+					send(res, 'data: {"choices":[{"delta":{"content":"Übersetzung für"}}]}\n\ndata: [DONE]\n\n');
+				}
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		try {
+			const tokens: string[] = [];
+			const text = await createProvider('openai', { baseUrl }).generate({ model: 'm', prompt: 'hello', onToken: t => tokens.push(t) });
+			assert.strictEqual(text, 'Übersetzung für');
+			assert.deepStrictEqual(tokens, ['Übersetzung für']);
+
+			await assert.rejects(
+				createProvider('openai', { baseUrl: baseUrl + '/fail' }).generate({ model: 'm', prompt: 'hello', onToken: () => undefined }),
+				/HTTP 400: Ungültiges Modell/
+			);
+		} finally {
+			server.close();
+		}
+	});
+
+	test('Ollama provider streams newline-delimited JSON', async () => {
+		const lines = [
+			'{"message":{"content":"fix(x) "},"done":false}',
+			'{"message":{"content":"thing"},"done":false}',
+			'{"done":true}'
+		].join('\n');
+		const stub = await startStubServer(200, lines);
+		try {
+			const provider = createProvider('ollama', { baseUrl: stub.baseUrl });
+			const tokens: string[] = [];
+			const text = await provider.generate({ model: 'llama3.2', prompt: 'hello', onToken: t => tokens.push(t) });
+
+			assert.strictEqual(text, 'fix(x) thing');
+			assert.deepStrictEqual(tokens, ['fix(x) ', 'thing']);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('aborted requests reject', async () => {
+		const stub = await startStubServer(200, { choices: [{ message: { content: 'never used' } }] });
+		try {
+			const provider = createProvider('openai', { baseUrl: stub.baseUrl });
+			const controller = new AbortController();
+			controller.abort();
+			await assert.rejects(
+				provider.generate({ model: 'gpt-4o-mini', prompt: 'hello', signal: controller.signal }),
+				/Request cancelled/
+			);
+		} finally {
+			stub.server.close();
+		}
+	});
+
+	test('resolveModel falls back when the model belongs to another provider', () => {
+		const ollama = getProviderDescriptor('ollama');
+		assert.strictEqual(resolveModel(ollama, 'gemini-2.0-flash'), 'llama3.2');
+		assert.strictEqual(resolveModel(ollama, 'my-custom-model'), 'my-custom-model');
+		assert.strictEqual(resolveModel(ollama, undefined), 'llama3.2');
+	});
+});
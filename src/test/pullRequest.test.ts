@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { buildPullRequestPrompt, parsePullRequest, renderPullRequestDocument } from '../pullRequest';
+
+suite('Pull request descriptions', () => {
+	test('reads the title from a "Title:" line', () => {
+		const description = parsePullRequest('Title: Add commit range generation\n\n## Summary\nAdds a command.\n\n## Changes\n- one\n');
+		assert.strictEqual(description.title, 'Add commit range generation');
+		assert.strictEqual(description.body, '## Summary\nAdds a command.\n\n## Changes\n- one');
+	});
+
+	test('accepts bold titles, headings and Markdown fences', () => {
+		assert.strictEqual(parsePullRequest('**Title:** "Fix the parser"\n\nBody').title, 'Fix the parser');
+		assert.strictEqual(parsePullRequest('```markdown\n# Fix the parser\n\n## Summary\nText\n```').title, 'Fix the parser');
+		assert.strictEqual(parsePullRequest('```markdown\n# Fix the parser\n\n## Summary\nText\n```').body, '## Summary\nText');
+	});
+
+	test('keeps everything as body when there is no title', () => {
+		const description = parsePullRequest('## Summary\nTitles are hard.');
+		assert.strictEqual(description.title, '');
+		assert.strictEqual(description.body, '## Summary\nTitles are hard.');
+	});
+
+	test('prompt and document layout', () => {
+		const prompt = buildPullRequestPrompt('Describe it.', 'feature/x', 'origin/main', '- Add x');
+		assert.ok(prompt.startsWith('Describe it.\n\n'));
+		assert.ok(prompt.includes('"feature/x" is to be merged into "origin/main"'));
+		assert.ok(prompt.endsWith('- Add x'));
+		assert.strictEqual(renderPullRequestDocument({ title: 'T', body: 'B' }), '# T\n\nB\n');
+	});
+});
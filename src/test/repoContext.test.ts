@@ -0,0 +1,16 @@
+import * as assert from 'assert';
+import { buildRepositoryContextPrompt } from '../repoContext';
+
+suite('Repository context', () => {
+	test('lists recent subjects, branch and ticket', () => {
+		const prompt = buildRepositoryContextPrompt({
+			branch: 'feature/ABC-123-foo',
+			ticketId: 'ABC-123',
+			recentSubjects: ['Fix login', 'Add logout'],
+		});
+		assert.ok(prompt.includes('\n- Fix login\n- Add logout\n\n'));
+		assert.ok(prompt.includes('"feature/ABC-123-foo"'));
+		assert.ok(prompt.includes('ticket ABC-123'));
+		assert.strictEqual(buildRepositoryContextPrompt({ recentSubjects: [] }), '');
+	});
+});
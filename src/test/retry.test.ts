@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GenerationError, classifyError, getProviderDescriptor } from '../providers';
+import { RetrySettings, getRetryDelay, withRetry } from '../retry';
+import { ModelFailure, generateCommitMessage } from '../generator';
+
+const FAST: RetrySettings = { maxRetries: 2, timeoutMs: 0, initialDelayMs: 1 };
+
+suite('Retries and fallback models', () => {
+	test('classifies errors by status, code and message', () => {
+		assert.strictEqual(classifyError({ message: 'x', response: { status: 401 } }).kind, 'auth');
+		assert.strictEqual(classifyError(new Error('[400 Bad Request] API key not valid. Please pass a valid API key.')).kind, 'auth');
+		const limited = classifyError({ message: 'x', response: { status: 429, headers: { 'retry-after': '3' } } });
+		assert.strictEqual(limited.kind, 'quota');
+		assert.strictEqual(limited.retryAfterMs, 3000);
+		assert.strictEqual(classifyError({ message: 'x', status: 503 }).kind, 'server');
+		assert.strictEqual(classifyError({ message: 'connect ECONNREFUSED', code: 'ECONNREFUSED' }).kind, 'network');
+		assert.strictEqual(classifyError(new Error('Response was blocked due to SAFETY')).kind, 'safety');
+		assert.strictEqual(classifyError(new Error('model not found')).kind, 'request');
+		assert.strictEqual(classifyError({ name: 'AbortError', message: 'aborted' }).kind, 'cancelled');
+		assert.ok(classifyError({ message: 'x', status: 500 }).transient);
+		assert.ok(!classifyError({ message: 'x', status: 401 }).transient);
+	});
+
+	test('backoff doubles, adds jitter and honors Retry-After', () => {
+		const settings: RetrySettings = { maxRetries: 3, timeoutMs: 0, initialDelayMs: 1000 };
+		const error = new GenerationError('server', 'down');
+		assert.strictEqual(getRetryDelay(1, settings, error, () => 0), 1000);
+		assert.strictEqual(getRetryDelay(3, settings, error, () => 0), 4000);
+		assert.strictEqual(getRetryDelay(1, settings, error, () => 1), 1250);
+		assert.strictEqual(getRetryDelay(1, settings, new GenerationError('quota', 'slow down', 429, 5000)), 5000);
+	});
+
+	test('retries transient errors only', async () => {
+		let calls = 0;
+		const retries: string[] = [];
+		const result = await withRetry(async () => {
+			calls++;
+			if (calls < 3) {
+				throw new GenerationError('server', 'down', 503);
+			}
+			return 'ok';
+		}, FAST, { onRetry: (error, retry) => retries.push(`${error.kind} ${retry}`) });
+		assert.strictEqual(result, 'ok');
+		assert.deepStrictEqual(retries, ['server 1', 'server 2']);
+
+		calls = 0;
+		await assert.rejects(withRetry(async () => {
+			calls++;
+			throw new GenerationError('auth', 'bad key', 401);
+		}, FAST), (error: GenerationError) => error.kind === 'auth');
+		assert.strictEqual(calls, 1);
+
+		calls = 0;
+		await assert.rejects(withRetry(async () => {
+			calls++;
+			throw new GenerationError('server', 'down', 503);
+		}, FAST, { canRetry: () => false }));
+		assert.strictEqual(calls, 1);
+	});
+
+	test('times out requests that do not answer', async () => {
+		await assert.rejects(
+			withRetry(signal => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))), { ...FAST, maxRetries: 0, timeoutMs: 20 }),
+			(error: GenerationError) => error.kind === 'timeout'
+		);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+		await assert.rejects(
+			withRetry(signal => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))), FAST, { signal: controller.signal }),
+			(error: GenerationError) => error.kind === 'cancelled'
+		);
+	});
+
+	test('falls back to the next model and reports why', async () => {
+		const models: string[] = [];
+		const server = http.createServer((req, res) => {
+			let raw = '';
+			req.on('data', chunk => raw += chunk);
+			req.on('end', () => {
+				const model = JSON.parse(raw).model;
+				models.push(model);
+				const ok = model === 'backup';
+				res.writeHead(ok ? 200 : 503, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify(ok ? { choices: [{ message: { content: 'fix thing' } }] } : { error: { message: 'overloaded' } }));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		try {
+			let fallback: { model: string, failures: ModelFailure[] } | undefined;
+			const options = {
+				providerSettings: { descriptor: getProviderDescriptor('openai'), model: 'primary', apiKey: 'key', baseUrl, fallbackModels: ['gemini-2.0-flash', 'backup'], retry: { ...FAST, maxRetries: 1 } },
+				prompt: 'Describe',
+				diff: 'diff',
+				maxPromptTokens: 1000,
+				onFallback: (model: string, failures: ModelFailure[]) => fallback = { model, failures },
+			};
+			assert.strictEqual(await generateCommitMessage(options), 'fix thing');
+			// The Gemini model belongs to another provider and is skipped
+			assert.deepStrictEqual(models, ['primary', 'primary', 'backup']);
+			assert.strictEqual(fallback?.model, 'backup');
+			assert.strictEqual(fallback?.failures[0].error.kind, 'server');
+
+			await assert.rejects(
+				generateCommitMessage({ ...options, providerSettings: { ...options.providerSettings, fallbackModels: ['other'] } }),
+				(error: GenerationError) => error.kind === 'server' && /Models tried: primary \(server error 503\), other/.test(error.message)
+			);
+		} finally {
+			server.close();
+		}
+	});
+});
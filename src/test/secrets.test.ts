@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ApiKeyStore } from '../secrets';
+
+class MemorySecrets {
+	readonly values = new Map<string, string>();
+	private readonly _onDidChange = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+	readonly onDidChange = this._onDidChange.event;
+	async get(key: string): Promise<string | undefined> {
+		return this.values.get(key);
+	}
+	async store(key: string, value: string): Promise<void> {
+		this.values.set(key, value);
+		this._onDidChange.fire({ key });
+	}
+	async delete(key: string): Promise<void> {
+		this.values.delete(key);
+		this._onDidChange.fire({ key });
+	}
+}
+
+// The part of WorkspaceConfiguration the migration uses, with a value per scope
+class FakeConfig {
+	readonly cleared: Array<[string, vscode.ConfigurationTarget]> = [];
+	constructor(private readonly _values: { [setting: string]: { globalValue?: string, workspaceValue?: string, workspaceFolderValue?: string } }) {}
+	inspect(setting: string) {
+		return this._values[setting] ? { key: setting, ...this._values[setting] } : undefined;
+	}
+	async update(setting: string, _value: undefined, target: vscode.ConfigurationTarget): Promise<void> {
+		this.cleared.push([setting, target]);
+	}
+}
+
+suite('API key store', () => {
+	let secrets: MemorySecrets;
+	let store: ApiKeyStore;
+
+	setup(() => {
+		secrets = new MemorySecrets();
+		store = new ApiKeyStore(secrets as unknown as vscode.SecretStorage);
+	});
+
+	teardown(() => {
+		store.dispose();
+	});
+
+	test('keeps several keys per provider and activates the newest', async () => {
+		await store.addKey('openai', 'Work', 'sk-work');
+		await store.addKey('openai', 'Personal', 'sk-personal');
+		await store.addKey('gemini', 'Default', 'g-key');
+
+		const keys = await store.listKeys('openai');
+		assert.deepStrictEqual(keys.map(k => [k.label, k.active]), [['Work', false], ['Personal', true]]);
+		assert.notStrictEqual(keys[0].id, keys[1].id);
+		assert.strictEqual((await store.getActiveKey('openai'))?.value, 'sk-personal');
+		assert.strictEqual((await store.getActiveKey('gemini'))?.value, 'g-key');
+
+		await store.setActiveKey('openai', keys[0].id);
+		assert.strictEqual((await store.getActiveKey('openai'))?.value, 'sk-work');
+		await assert.rejects(store.setActiveKey('openai', 'missing'), /not found/);
+	});
+
+	test('falls back to another key when the active one is removed', async () => {
+		await store.addKey('anthropic', 'One', 'a-1');
+		await store.addKey('anthropic', 'Two', 'a-2');
+		const [one, two] = await store.listKeys('anthropic');
+
+		await store.removeKey('anthropic', two.id);
+		assert.strictEqual((await store.getActiveKey('anthropic'))?.id, one.id);
+		await store.removeKey('anthropic', one.id);
+		assert.strictEqual(await store.getActiveKey('anthropic'), undefined);
+		assert.strictEqual(secrets.values.size, 0);
+	});
+
+	test('uses the first key when the active ID is unknown', async () => {
+		await secrets.store('gitDiffCommitGenerator.apiKeys.openai', JSON.stringify({ activeId: 'gone', keys: [{ id: 'k1', label: 'Old', value: 'sk-old' }] }));
+		assert.strictEqual((await store.getActiveKey('openai'))?.value, 'sk-old');
+	});
+
+	test('ignores a corrupted record', async () => {
+		await secrets.store('gitDiffCommitGenerator.apiKeys.gemini', '{not json');
+		assert.deepStrictEqual(await store.listKeys('gemini'), []);
+		assert.strictEqual(await store.getActiveKey('gemini'), undefined);
+
+		await store.addKey('gemini', 'Default', 'g-new');
+		assert.strictEqual((await store.getActiveKey('gemini'))?.value, 'g-new');
+	});
+
+	test('migrates keys from every settings scope and clears them', async () => {
+		const config = new FakeConfig({
+			apiKey: { globalValue: 'g-global', workspaceValue: 'g-workspace', workspaceFolderValue: 'g-global' },
+			openaiApiKey: { workspaceFolderValue: 'sk-folder' },
+		});
+		await store.migrateFromSettings(config as unknown as vscode.WorkspaceConfiguration);
+
+		const gemini = await store.listKeys('gemini');
+		// The same value in two scopes is stored once; IDs stay distinct although added back to back
+		assert.deepStrictEqual(gemini.map(k => k.label), ['Default', 'Migrated from settings']);
+		assert.strictEqual(new Set(gemini.map(k => k.id)).size, 2);
+		assert.strictEqual((await store.getActiveKey('openai'))?.value, 'sk-folder');
+		assert.deepStrictEqual(config.cleared, [
+			['apiKey', vscode.ConfigurationTarget.Global],
+			['apiKey', vscode.ConfigurationTarget.Workspace],
+			['apiKey', vscode.ConfigurationTarget.WorkspaceFolder],
+			['openaiApiKey', vscode.ConfigurationTarget.WorkspaceFolder],
+		]);
+
+		// Removing one migrated key leaves the other
+		await store.removeKey('gemini', gemini[0].id);
+		assert.deepStrictEqual((await store.listKeys('gemini')).map(k => k.label), ['Migrated from settings']);
+	});
+});
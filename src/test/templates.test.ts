@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { findProjectTemplate, getDefaultPrompt, isPathInProject, isSamePath, resolvePromptTemplate, SavedTemplates } from '../templates';
+
+const root = path.resolve('/work');
+const templates: SavedTemplates = {
+	team: { name: 'Team', prompt: 'Team prompt', projectPaths: [root] },
+	app: { name: 'App', prompt: 'App prompt', projectPaths: [path.join(root, 'app'), path.join(root, 'other')], parameters: { temperature: 0.1 } },
+	api: { name: 'API', prompt: 'API prompt', projectPaths: [path.join(root, 'app', 'api')] },
+	conventional: { name: 'Conventional', prompt: 'Conventional prompt' },
+	empty: { name: 'Empty', prompt: '' },
+};
+
+suite('Template resolution', () => {
+	test('compares normalised paths', () => {
+		assert.ok(isSamePath(path.join(root, 'app'), path.join(root, 'app') + path.sep));
+		assert.ok(isSamePath(path.join(root, 'app', '..', 'app'), path.join(root, 'app')));
+		assert.ok(!isSamePath(path.join(root, 'app'), path.join(root, 'apps')));
+		assert.ok(isPathInProject(path.join(root, 'app', 'src'), path.join(root, 'app')));
+		assert.ok(!isPathInProject(path.join(root, 'application'), path.join(root, 'app')));
+	});
+
+	test('the longest project path wins', () => {
+		assert.strictEqual(findProjectTemplate(path.join(root, 'app', 'api', 'server'), templates), 'api');
+		assert.strictEqual(findProjectTemplate(path.join(root, 'app', 'web'), templates), 'app');
+		assert.strictEqual(findProjectTemplate(path.join(root, 'other'), templates), 'app');
+		assert.strictEqual(findProjectTemplate(path.join(root, 'tools'), templates), 'team');
+		assert.strictEqual(findProjectTemplate(path.resolve('/elsewhere'), templates), undefined);
+	});
+
+	test('a project template comes first', () => {
+		const resolved = resolvePromptTemplate(path.join(root, 'app'), templates, 'conventional', 'Global prompt');
+		assert.deepStrictEqual(resolved, { prompt: 'App prompt', templateId: 'app', templateName: 'App', parameters: { temperature: 0.1 }, source: 'project' });
+	});
+
+	test('then the default template', () => {
+		const resolved = resolvePromptTemplate(path.resolve('/elsewhere'), templates, 'conventional', 'Global prompt');
+		assert.strictEqual(resolved.source, 'default');
+		assert.strictEqual(resolved.templateId, 'conventional');
+		assert.strictEqual(resolved.prompt, 'Conventional prompt');
+		assert.strictEqual(resolvePromptTemplate(undefined, templates, 'conventional', undefined).source, 'default');
+	});
+
+	test('then the global prompt', () => {
+		assert.deepStrictEqual(resolvePromptTemplate(undefined, templates, undefined, 'Global prompt'), { prompt: 'Global prompt', source: 'global' });
+		// A default template that was deleted, or has no prompt, is skipped
+		assert.strictEqual(resolvePromptTemplate(undefined, templates, 'deleted', 'Global prompt').source, 'global');
+		assert.strictEqual(resolvePromptTemplate(undefined, templates, 'empty', 'Global prompt').source, 'global');
+	});
+
+	test('then the built-in prompt', () => {
+		assert.deepStrictEqual(resolvePromptTemplate(undefined, {}, 'deleted', ''), { prompt: getDefaultPrompt(), source: 'builtin' });
+		assert.strictEqual(resolvePromptTemplate(path.join(root, 'app'), {}, undefined, undefined).source, 'builtin');
+	});
+});
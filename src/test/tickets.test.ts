@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { extractTicketId, insertTicketId } from '../tickets';
+
+suite('Ticket keys', () => {
+	test('finds Jira keys in branch names by default', () => {
+		assert.strictEqual(extractTicketId('feature/ABC-123-foo').ticketId, 'ABC-123');
+		assert.strictEqual(extractTicketId('bugfix/PROJ2-77_crash').ticketId, 'PROJ2-77');
+		assert.strictEqual(extractTicketId('ABC-9').ticketId, 'ABC-9');
+		assert.strictEqual(extractTicketId('release-2024').ticketId, undefined);
+		assert.strictEqual(extractTicketId('main').ticketId, undefined);
+	});
+
+	test('uses configured patterns in order', () => {
+		assert.strictEqual(extractTicketId('issue/42-login', ['^issue/(\\d+)', 'ABC-\\d+']).ticketId, '42');
+		assert.strictEqual(extractTicketId('feature/ABC-7', ['^issue/(\\d+)', 'ABC-\\d+']).ticketId, 'ABC-7');
+		const invalid = extractTicketId('feature/ABC-7', ['(', 'ABC-\\d+']);
+		assert.strictEqual(invalid.ticketId, 'ABC-7');
+		assert.deepStrictEqual(invalid.invalidPatterns, ['(']);
+	});
+
+	test('adds the key as prefix or suffix of the subject', () => {
+		const message = 'Add login form\n\nWith validation.';
+		assert.strictEqual(insertTicketId(message, 'ABC-1', { placement: 'prefix', format: '' }), 'ABC-1: Add login form\n\nWith validation.');
+		assert.strictEqual(insertTicketId(message, 'ABC-1', { placement: 'suffix', format: '' }), 'Add login form (ABC-1)\n\nWith validation.');
+		assert.strictEqual(insertTicketId(message, 'ABC-1', { placement: 'prefix', format: '[{ticket}] ' }), '[ABC-1] Add login form\n\nWith validation.');
+		assert.strictEqual(insertTicketId('ABC-1 Add login', 'ABC-1', { placement: 'prefix', format: '' }), 'ABC-1 Add login');
+		assert.strictEqual(insertTicketId(message, 'ABC-1', { placement: 'none', format: '' }), message);
+	});
+
+	test('adds the key as a trailer', () => {
+		assert.strictEqual(insertTicketId('Add login', 'ABC-1', { placement: 'trailer', format: '' }), 'Add login\n\nRefs: ABC-1');
+		assert.strictEqual(insertTicketId('Add login\n\nSigned-off-by: A <a@b.c>', 'ABC-1', { placement: 'trailer', format: '' }),
+			'Add login\n\nSigned-off-by: A <a@b.c>\nRefs: ABC-1');
+		assert.strictEqual(insertTicketId('Add login\n\nRefs: ABC-1', 'ABC-1', { placement: 'trailer', format: '' }), 'Add login\n\nRefs: ABC-1');
+	});
+});
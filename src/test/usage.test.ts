@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { DEFAULT_PRICES, UsageRecord, UsageStore, checkBudget, estimateCost, findPrice, getDayKey, summarizeUsage } from '../usage';
+
+class MemoryState {
+	private readonly _values = new Map<string, any>();
+	get<T>(key: string): T | undefined {
+		return this._values.get(key);
+	}
+	async update(key: string, value: any): Promise<void> {
+		this._values.set(key, value);
+	}
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+	return { provider: 'openai', model: 'gpt-4o-mini', promptTokens: 1000000, outputTokens: 100000, estimated: false, timestamp: 0, ...overrides };
+}
+
+suite('Token usage', () => {
+	test('prices match exact IDs, then the longest prefix', () => {
+		assert.deepStrictEqual(findPrice({ provider: 'openai', model: 'gpt-4o-mini-2024-07-18' }, DEFAULT_PRICES), DEFAULT_PRICES['gpt-4o-mini']);
+		assert.deepStrictEqual(findPrice({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' }, DEFAULT_PRICES), DEFAULT_PRICES['claude-3-5-haiku']);
+		assert.deepStrictEqual(findPrice({ provider: 'ollama', model: 'llama3.2' }, DEFAULT_PRICES), { input: 0, output: 0 });
+		assert.strictEqual(findPrice({ provider: 'openai', model: 'my-finetune' }, DEFAULT_PRICES), undefined);
+
+		// 1M prompt tokens at $0.15 plus 100K output tokens at $0.60
+		assert.strictEqual(Math.round(estimateCost(record({}), DEFAULT_PRICES)! * 100) / 100, 0.21);
+		assert.strictEqual(estimateCost(record({ model: 'my-finetune' }), { 'my-finetune': { input: 1, output: 2 } }), 1.2);
+	});
+
+	test('summarizes per day, model and repository', () => {
+		const now = new Date(2025, 5, 15, 12).getTime();
+		const records = [
+			record({ timestamp: now, repoName: 'api' }),
+			record({ timestamp: now - DAY, model: 'gpt-4o', repoName: 'api', estimated: true }),
+			record({ timestamp: now - 2 * DAY, model: 'unknown-model', repoName: 'web' }),
+			record({ timestamp: new Date(2025, 4, 20).getTime(), repoName: 'web' }),
+		];
+		const summary = summarizeUsage(records, DEFAULT_PRICES, now);
+
+		assert.strictEqual(summary.total.requests, 4);
+		assert.strictEqual(summary.total.unpriced, 1);
+		assert.strictEqual(summary.total.estimated, 1);
+		assert.strictEqual(summary.month.requests, 3);
+		assert.deepStrictEqual(summary.byDay.map(group => group.key), [getDayKey(now), getDayKey(now - DAY), getDayKey(now - 2 * DAY), '2025-05-20']);
+		assert.deepStrictEqual(summary.byModel.map(group => group.key), ['gpt-4o', 'gpt-4o-mini', 'unknown-model']);
+		assert.deepStrictEqual(summary.byRepo.map(group => [group.key, group.totals.requests]), [['api', 2], ['web', 2]]);
+	});
+
+	test('budgets warn at the soft limit and block at the hard limit', () => {
+		assert.strictEqual(checkBudget(5, {}), 'ok');
+		assert.strictEqual(checkBudget(5, { softLimit: 10, hardLimit: 20 }), 'ok');
+		assert.strictEqual(checkBudget(10, { softLimit: 10, hardLimit: 20 }), 'soft');
+		assert.strictEqual(checkBudget(25, { softLimit: 10, hardLimit: 20 }), 'hard');
+		assert.strictEqual(checkBudget(0, { hardLimit: 0 }), 'hard');
+	});
+
+	test('stores records newest first and drops old ones', async () => {
+		let now = 0;
+		let changes = 0;
+		const store = new UsageStore(new MemoryState(), () => changes++, () => now);
+		await store.add(record({}), { path: '/repo', name: 'repo' });
+		now = 500 * DAY;
+		await store.add(record({ model: 'gpt-4o' }));
+
+		assert.deepStrictEqual(store.getRecords().map(r => r.model), ['gpt-4o']);
+		assert.strictEqual(changes, 2);
+		await store.clear();
+		assert.deepStrictEqual(store.getRecords(), []);
+	});
+});
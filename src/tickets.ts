@@ -0,0 +1,72 @@
+// src/tickets.ts
+
+// --- Ticket Keys ---
+export type TicketPlacement = "none" | "prefix" | "suffix" | "trailer";
+
+export interface TicketSettings {
+    placement: TicketPlacement;
+    format: string;     // "{ticket}" is replaced with the key; "" uses the placement's default
+}
+
+// Jira-style keys such as "ABC-123", anywhere in the branch name. Only upper case
+// keys count, so names like "release-2024" are not mistaken for tickets.
+export const DEFAULT_TICKET_PATTERN = "(?:^|[^A-Za-z0-9])([A-Z][A-Z0-9]+-\\d+)(?![A-Za-z0-9])";
+
+const DEFAULT_FORMATS: { [placement in TicketPlacement]: string } = {
+    none: "",
+    prefix: "{ticket}: ",
+    suffix: " ({ticket})",
+    trailer: "Refs: {ticket}",
+};
+
+export interface TicketExtraction {
+    ticketId?: string;
+    invalidPatterns: string[];
+}
+
+// "feature/ABC-123-add-login" -> "ABC-123". The first pattern that matches wins; its
+// first capture group is the key, or the whole match when it has no groups.
+export function extractTicketId(branch: string, patterns: string[] = []): TicketExtraction {
+    const invalidPatterns: string[] = [];
+    for (const source of patterns.length > 0 ? patterns : [DEFAULT_TICKET_PATTERN]) {
+        let regex: RegExp;
+        try {
+            regex = new RegExp(source);
+        } catch {
+            invalidPatterns.push(source);
+            continue;
+        }
+        const match = branch.match(regex);
+        const ticketId = match && (match[1] ?? match[0]).trim();
+        if (ticketId) {
+            return { ticketId, invalidPatterns };
+        }
+    }
+    return { invalidPatterns };
+}
+
+// Adds the key to a generated message. Runs after generation, so the key is there even
+// when the model leaves it out; a subject (or trailer) that already has it is kept as is.
+export function insertTicketId(message: string, ticketId: string, settings: TicketSettings): string {
+    if (settings.placement === "none") {
+        return message;
+    }
+    const text = (settings.format || DEFAULT_FORMATS[settings.placement]).split("{ticket}").join(ticketId);
+    const lines = message.trim().split("\n");
+
+    if (settings.placement === "trailer") {
+        if (lines.some(line => line.trim() === text.trim())) {
+            return message;
+        }
+        // Join an existing trailer block (e.g. "Signed-off-by:") instead of starting a new one
+        const lastParagraph = lines.slice(lines.lastIndexOf("") + 1);
+        const endsWithTrailers = lines.length > 1 && lines.includes("") && lastParagraph.every(line => /^[\w-]+: /.test(line));
+        return [...lines, ...(endsWithTrailers ? [] : [""]), text.trim()].join("\n");
+    }
+
+    if (lines[0].includes(ticketId)) {
+        return message;
+    }
+    lines[0] = settings.placement === "prefix" ? `${text}${lines[0]}` : `${lines[0]}${text}`;
+    return lines.join("\n");
+}
@@ -0,0 +1,199 @@
+// src/usage.ts
+import { ModelPricing } from "./providers";
+import { ModelUsage } from "./generator";
+import { CacheState } from "./cache";
+
+// --- Usage Records ---
+// One record per answered request. Records stay on this machine (in globalState) and
+// contain no prompt or response text.
+export interface UsageRecord extends ModelUsage {
+    timestamp: number;
+    repoPath?: string;
+    repoName?: string;
+}
+
+const USAGE_STATE_KEY = "gitDiffCommitGenerator.usage";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A little over a year, so the same month of last year can still be compared
+const USAGE_RETENTION_MS = 400 * DAY_MS;
+const MAX_USAGE_RECORDS = 10000;
+
+// Newest records first
+export class UsageStore {
+    constructor(
+        private readonly _state: CacheState,
+        private readonly _onDidAdd?: () => void,
+        private readonly _now: () => number = Date.now
+    ) {}
+
+    getRecords(): UsageRecord[] {
+        return this._state.get<UsageRecord[]>(USAGE_STATE_KEY) || [];
+    }
+
+    async add(usage: ModelUsage, repo?: { path: string, name?: string }): Promise<void> {
+        const now = this._now();
+        const record: UsageRecord = { ...usage, timestamp: now, repoPath: repo?.path, repoName: repo?.name };
+        const kept = this.getRecords().filter(r => now - r.timestamp < USAGE_RETENTION_MS);
+        await this._state.update(USAGE_STATE_KEY, [record, ...kept].slice(0, MAX_USAGE_RECORDS));
+        this._onDidAdd?.();
+    }
+
+    async clear(): Promise<void> {
+        await this._state.update(USAGE_STATE_KEY, undefined);
+        this._onDidAdd?.();
+    }
+}
+
+// --- Prices ---
+// Model ID (or ID prefix) to US dollars per million tokens
+export type PriceTable = { [model: string]: ModelPricing };
+
+// Published list prices of the built-in models. Prices change; the usage.prices setting
+// overrides and extends this table.
+export const DEFAULT_PRICES: PriceTable = {
+    "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+    "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+    "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+    "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+    "gemini-2.5-pro": { input: 1.25, output: 10 },
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-3-7-sonnet": { input: 3, output: 15 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+};
+
+// An exact match wins, then the longest prefix, so "gpt-4o-mini-2024-07-18" is priced
+// as "gpt-4o-mini" and not as "gpt-4o". Local Ollama models cost nothing.
+export function findPrice(record: Pick<UsageRecord, "provider" | "model">, prices: PriceTable): ModelPricing | undefined {
+    if (record.provider === "ollama") {
+        return { input: 0, output: 0 };
+    }
+    if (prices[record.model]) {
+        return prices[record.model];
+    }
+    const prefix = Object.keys(prices)
+        .filter(model => record.model.startsWith(model))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+}
+
+// In US dollars; undefined when the model has no known price
+export function estimateCost(record: UsageRecord, prices: PriceTable): number | undefined {
+    const price = findPrice(record, prices);
+    return price && (record.promptTokens * price.input + record.outputTokens * price.output) / 1000000;
+}
+
+// --- Summaries ---
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    outputTokens: number;
+    cost: number;           // Of the requests with a known price
+    unpriced: number;       // Requests whose model has no known price
+    estimated: number;      // Requests with estimated token counts
+}
+
+export interface UsageGroup {
+    key: string;            // Day (YYYY-MM-DD), model or repository
+    totals: UsageTotals;
+}
+
+export interface UsageSummary {
+    total: UsageTotals;
+    month: UsageTotals;     // The current calendar month, which budgets apply to
+    byDay: UsageGroup[];    // The last 30 days with usage, newest first
+    byModel: UsageGroup[];  // Most expensive first
+    byRepo: UsageGroup[];
+}
+
+const SUMMARY_DAYS = 30;
+
+function emptyTotals(): UsageTotals {
+    return { requests: 0, promptTokens: 0, outputTokens: 0, cost: 0, unpriced: 0, estimated: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord, cost: number | undefined) {
+    totals.requests++;
+    totals.promptTokens += record.promptTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cost += cost ?? 0;
+    totals.unpriced += cost === undefined ? 1 : 0;
+    totals.estimated += record.estimated ? 1 : 0;
+}
+
+// Local date, so a day ends at midnight where the user is
+export function getDayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+export function getMonthStart(now: number): number {
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+export function summarizeUsage(records: UsageRecord[], prices: PriceTable, now: number = Date.now()): UsageSummary {
+    const total = emptyTotals();
+    const month = emptyTotals();
+    const monthStart = getMonthStart(now);
+    const firstDay = now - SUMMARY_DAYS * DAY_MS;
+    const days = new Map<string, UsageTotals>();
+    const models = new Map<string, UsageTotals>();
+    const repos = new Map<string, UsageTotals>();
+    const addToGroup = (groups: Map<string, UsageTotals>, key: string, record: UsageRecord, cost: number | undefined) => {
+        if (!groups.has(key)) {
+            groups.set(key, emptyTotals());
+        }
+        addToTotals(groups.get(key)!, record, cost);
+    };
+
+    for (const record of records) {
+        const cost = estimateCost(record, prices);
+        addToTotals(total, record, cost);
+        if (record.timestamp >= monthStart) {
+            addToTotals(month, record, cost);
+        }
+        if (record.timestamp >= firstDay) {
+            addToGroup(days, getDayKey(record.timestamp), record, cost);
+        }
+        addToGroup(models, record.model, record, cost);
+        addToGroup(repos, record.repoName || record.repoPath || "(no repository)", record, cost);
+    }
+
+    const toGroups = (groups: Map<string, UsageTotals>) => [...groups].map(([key, totals]) => ({ key, totals }));
+    const byCost = (a: UsageGroup, b: UsageGroup) => b.totals.cost - a.totals.cost || b.totals.requests - a.totals.requests;
+    return {
+        total,
+        month,
+        byDay: toGroups(days).sort((a, b) => b.key.localeCompare(a.key)),
+        byModel: toGroups(models).sort(byCost),
+        byRepo: toGroups(repos).sort(byCost),
+    };
+}
+
+// --- Budgets ---
+// Monthly limits in US dollars. Reaching the soft limit warns, reaching the hard limit
+// blocks generation until the next month (or until the limit is raised).
+export interface UsageBudget {
+    softLimit?: number;
+    hardLimit?: number;
+}
+
+export type BudgetLevel = "ok" | "soft" | "hard";
+
+export function checkBudget(monthCost: number, budget: UsageBudget): BudgetLevel {
+    if (budget.hardLimit !== undefined && monthCost >= budget.hardLimit) {
+        return "hard";
+    }
+    if (budget.softLimit !== undefined && monthCost >= budget.softLimit) {
+        return "soft";
+    }
+    return "ok";
+}
+
+export function formatCost(dollars: number): string {
+    return dollars > 0 && dollars < 0.01 ? `$${dollars.toFixed(4)}` : `$${dollars.toFixed(2)}`;
+}